@@ -0,0 +1,88 @@
+import { decodeBody } from './body';
+
+// Available globally since Node 18, but not described by the Node types
+declare const FormData: {
+  new (): { append(name: string, value: unknown, filename?: string): void };
+};
+
+describe(decodeBody.name, () => {
+  it('returns `undefined` when there is no body', () => {
+    expect(decodeBody(undefined)).toBeUndefined();
+    expect(decodeBody('')).toBeUndefined();
+  });
+
+  it('parses JSON bodies', () => {
+    const headers = { 'Content-Type': 'application/json' };
+    expect(decodeBody('{"key":"value"}', headers)).toEqual({ key: 'value' });
+  });
+
+  it('parses JSON bodies sent without a JSON content type', () => {
+    const headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    expect(decodeBody('{"key":"value"}', headers)).toEqual({ key: 'value' });
+  });
+
+  it('decodes form encoded bodies into an object', () => {
+    const headers = {
+      'content-type': 'application/x-www-form-urlencoded;charset=utf-8',
+    };
+
+    expect(decodeBody('key=value&list=1&list=2&ids[]=3', headers)).toEqual({
+      key: 'value',
+      list: ['1', '2'],
+      ids: ['3'],
+    });
+
+    expect(decodeBody(new URLSearchParams({ key: 'value' }))).toEqual({
+      key: 'value',
+    });
+  });
+
+  it('returns plain text bodies as a string', () => {
+    const headers = { 'Content-Type': 'text/plain' };
+    expect(decodeBody('key=value', headers)).toEqual('key=value');
+  });
+
+  it('decodes `FormData` bodies into fields and file metadata', () => {
+    const data = new FormData();
+    data.append('key', 'value');
+    data.append('file', new Blob(['hello'], { type: 'text/plain' }), 'a.txt');
+
+    expect(decodeBody(data)).toEqual({
+      key: 'value',
+      file: { name: 'a.txt', type: 'text/plain', size: 5 },
+    });
+  });
+
+  it('decodes multipart bodies into fields and file metadata', () => {
+    const headers = {
+      'Content-Type': 'multipart/form-data; boundary=BOUNDARY',
+    };
+
+    const data = [
+      '--BOUNDARY',
+      'Content-Disposition: form-data; name="key"',
+      '',
+      'value',
+      '--BOUNDARY',
+      'Content-Disposition: form-data; name="file"; filename="a.txt"',
+      'Content-Type: text/plain',
+      '',
+      'hello',
+      '--BOUNDARY--',
+      '',
+    ].join('\r\n');
+
+    expect(decodeBody(data, headers)).toEqual({
+      key: 'value',
+      file: { name: 'a.txt', type: 'text/plain', size: 5 },
+    });
+  });
+
+  it('converts binary bodies into a `Buffer`', () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    expect(decodeBody(Buffer.from(bytes))).toEqual(Buffer.from(bytes));
+    expect(decodeBody(bytes.buffer)).toEqual(Buffer.from(bytes));
+    expect(decodeBody(bytes.subarray(1))).toEqual(Buffer.from([2, 3]));
+  });
+});
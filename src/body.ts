@@ -0,0 +1,187 @@
+import { Headers } from './types';
+
+type FileMetadata = { name: string; type: string; size: number };
+type FormValue = string | FileMetadata;
+type FormFields = Record<string, FormValue | FormValue[]>;
+
+// The global `FormData` available since Node 18, which is not described by
+// the Node type definitions.
+type NativeFormData = {
+  entries(): IterableIterator<[string, string | FileMetadata]>;
+};
+
+// The `form-data` package Axios uses in Node when serializing objects as
+// `multipart/form-data`.
+type FormDataPackage = {
+  getBuffer(): Buffer;
+  getBoundary(): string;
+};
+
+const isFormDataPackage = (data: unknown): data is FormDataPackage => {
+  const candidate = data as FormDataPackage;
+
+  return (
+    typeof candidate?.getBuffer === 'function' &&
+    typeof candidate?.getBoundary === 'function'
+  );
+};
+
+const isNativeFormData = (data: unknown): data is NativeFormData =>
+  Object.prototype.toString.call(data) === '[object FormData]';
+
+const contentTypeOf = (headers?: Headers): string | undefined => {
+  const key = Object.keys(headers || {}).find(
+    (name) => name.toLowerCase() === 'content-type'
+  );
+
+  return key ? headers![key] : undefined;
+};
+
+const addField = (fields: FormFields, name: string, value: FormValue) => {
+  const key = name.replace(/\[\]$/, '');
+  const current = fields[key];
+
+  if (current === undefined) {
+    fields[key] = key === name ? value : [value];
+  } else {
+    fields[key] = [...(Array.isArray(current) ? current : [current]), value];
+  }
+
+  return fields;
+};
+
+const decodeForm = (encoded: string | URLSearchParams): FormFields => {
+  const search = new URLSearchParams(encoded);
+
+  return [...search.entries()].reduce<FormFields>(
+    (fields, [name, value]) => addField(fields, name, value),
+    {}
+  );
+};
+
+const decodeFormData = (data: NativeFormData): FormFields =>
+  [...data.entries()].reduce<FormFields>((fields, [name, value]) => {
+    if (typeof value === 'string') {
+      return addField(fields, name, value);
+    }
+
+    const { name: filename, type, size } = value;
+    return addField(fields, name, { name: filename, type, size });
+  }, {});
+
+const decodeMultipart = (data: Buffer, boundary: string): FormFields => {
+  const delimiter = `--${boundary}`;
+  const fields: FormFields = {};
+
+  for (const part of data.toString('latin1').split(delimiter).slice(1)) {
+    if (part.startsWith('--')) {
+      break;
+    }
+
+    const separator = part.indexOf('\r\n\r\n');
+    const rawHeaders = part.slice(0, separator);
+    const content = part.slice(separator + 4).replace(/\r\n$/, '');
+
+    const name = rawHeaders.match(/name="([^"]*)"/)?.[1];
+    const filename = rawHeaders.match(/filename="([^"]*)"/)?.[1];
+    const type = rawHeaders.match(/content-type:\s*([^\r\n]+)/i)?.[1];
+
+    if (name === undefined) {
+      continue;
+    }
+
+    if (filename === undefined) {
+      addField(fields, name, Buffer.from(content, 'latin1').toString());
+    } else {
+      addField(fields, name, {
+        name: filename,
+        type: type ?? 'application/octet-stream',
+        size: Buffer.byteLength(content, 'latin1'),
+      });
+    }
+  }
+
+  return fields;
+};
+
+const parseJson = (data: string): unknown => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+};
+
+const decodeString = (data: string, rawContentType?: string): unknown => {
+  const boundary = rawContentType?.match(/boundary=([^;]+)/)?.[1];
+  const contentType = rawContentType?.toLowerCase();
+
+  if (contentType?.startsWith('multipart/form-data') && boundary) {
+    return decodeMultipart(Buffer.from(data, 'latin1'), boundary);
+  }
+
+  if (contentType && /[/+]json/.test(contentType)) {
+    return parseJson(data) ?? data;
+  }
+
+  if (contentType?.startsWith('text/')) {
+    return data;
+  }
+
+  // Axios does not set a content type for pre-serialized strings, so these
+  // still arrive with the default form encoding
+  const json = parseJson(data);
+
+  if (typeof json === 'object' && json !== null) {
+    return json;
+  }
+
+  if (contentType?.startsWith('application/x-www-form-urlencoded')) {
+    return decodeForm(data);
+  }
+
+  return data;
+};
+
+// Decode a request body into a value that can be compared against the body
+// configured on a request. Form bodies become objects, multipart bodies become
+// fields with file metadata, and binary bodies become a `Buffer`.
+const decodeBody = (data: unknown, headers?: Headers): unknown => {
+  if (data === undefined || data === null || data === '') {
+    return undefined;
+  }
+
+  const contentType = contentTypeOf(headers);
+
+  if (typeof data === 'string') {
+    return decodeString(data, contentType);
+  }
+
+  if (data instanceof URLSearchParams) {
+    return decodeForm(data);
+  }
+
+  if (isNativeFormData(data)) {
+    return decodeFormData(data);
+  }
+
+  if (isFormDataPackage(data)) {
+    return decodeMultipart(data.getBuffer(), data.getBoundary());
+  }
+
+  if (Buffer.isBuffer(data)) {
+    return data;
+  }
+
+  if (data instanceof ArrayBuffer) {
+    return Buffer.from(data);
+  }
+
+  if (ArrayBuffer.isView(data)) {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  return data;
+};
+
+export { decodeBody, decodeForm, FileMetadata };
@@ -0,0 +1,80 @@
+import { AxiosHeaders, AxiosResponse } from 'axios';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+import { Cassette, Headers, Interaction } from './types';
+
+const emptyCassette = (): Cassette => ({ version: 1, interactions: [] });
+
+const readCassette = (path: string): Cassette =>
+  JSON.parse(readFileSync(path, 'utf8'));
+
+const writeCassette = (path: string, cassette: Cassette): void => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`);
+};
+
+// JSON responses are stored parsed so that cassettes are readable and can be
+// edited by hand, while binary responses are stored as base64
+const serializeResponse = (
+  response: AxiosResponse
+): Interaction['response'] => {
+  const { status, statusText } = response;
+  const headers = AxiosHeaders.from(response.headers as AxiosHeaders).toJSON(
+    true
+  ) as Headers;
+
+  let { data } = response;
+
+  if (Buffer.isBuffer(data)) {
+    return {
+      status,
+      statusText,
+      headers,
+      data: data.toString('base64'),
+      encoding: 'base64',
+    };
+  }
+
+  if (typeof data === 'string' && /[/+]json/i.test(headers['content-type'])) {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      // Keep the body as it was received
+    }
+  }
+
+  return { status, statusText, headers, data };
+};
+
+const deserializeData = ({
+  data,
+  encoding,
+}: Interaction['response']): unknown =>
+  encoding === 'base64' && typeof data === 'string'
+    ? Buffer.from(data, 'base64')
+    : data;
+
+const scrubHeaders = (
+  headers: Headers | undefined,
+  names: string[]
+): Headers | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !names.includes(name.toLowerCase())
+    )
+  );
+};
+
+export {
+  emptyCassette,
+  readCassette,
+  writeCassette,
+  serializeResponse,
+  deserializeData,
+  scrubHeaders,
+};
@@ -1,6 +1,13 @@
 import { AxiosRequestConfig } from 'axios';
 import { Request } from './request';
-import { Headers, Method, MockRegistry, RequestOptions } from './types';
+import {
+  Diagnostic,
+  Headers,
+  Method,
+  MockRegistry,
+  RecordedCall,
+  RequestOptions,
+} from './types';
 import { extractRequestHeaders } from './util';
 
 type SerializedConfig = {
@@ -53,10 +60,84 @@ class InvalidRequestsError extends HttpMockError {
   }
 }
 
+class ResponsesExhaustedError extends HttpMockError {
+  constructor(readonly request: Request) {
+    super(
+      `Configured responses exhausted for request: ${JSON.stringify(request)}`
+    );
+  }
+}
+
+const describeInvocations = (request: Request): string => {
+  const { minInvocations: min, maxInvocations: max, invocations } = request;
+  const count = (n: number) => `${n} invocation${n === 1 ? '' : 's'}`;
+
+  let expected = `at least ${count(min)}`;
+
+  if (max !== undefined) {
+    expected =
+      min === max
+        ? `exactly ${count(min)}`
+        : `between ${min} and ${count(max)}`;
+  }
+
+  return `Expected ${expected}, received ${invocations}:`;
+};
+
+class UnsatisfiedRequestsError extends HttpMockError {
+  constructor(readonly requests: Request[]) {
+    super(
+      [
+        'Expected requests were not received:',
+        ...requests.flatMap((request) => [
+          '',
+          describeInvocations(request),
+          JSON.stringify(request, null, 2),
+        ]),
+      ].join('\n')
+    );
+  }
+}
+
+class UnmatchedRequestsError extends HttpMockError {
+  constructor(readonly calls: RecordedCall[]) {
+    super(
+      [
+        'Received requests that did not match a configured request:',
+        '',
+        JSON.stringify(
+          calls.map(({ request: _request, ...call }) => call),
+          null,
+          2
+        ),
+      ].join('\n')
+    );
+  }
+}
+
+class ContractViolationError extends HttpMockError {
+  constructor(readonly description: string, readonly violations: string[]) {
+    super(
+      [
+        `${description} does not conform to the OpenAPI document:`,
+        '',
+        ...violations.map((violation) => `  - ${violation}`),
+      ].join('\n')
+    );
+  }
+}
+
+class UnknownProfileError extends HttpMockError {
+  constructor(readonly name: string) {
+    super(`No profile has been defined with the name: ${name}`);
+  }
+}
+
 class RequestNotFoundError extends HttpMockError {
   constructor(
     readonly config: AxiosRequestConfig,
-    readonly registry: MockRegistry
+    readonly registry: MockRegistry,
+    readonly diagnostics: Diagnostic[] = []
   ) {
     super(
       [
@@ -65,14 +146,29 @@ class RequestNotFoundError extends HttpMockError {
         '',
         'Available request matchers:',
         JSON.stringify(Object.values(registry).flat(), null, 2),
+        ...(diagnostics.length > 0
+          ? [
+              '',
+              'Body schema violations:',
+              ...diagnostics.flatMap(({ request, violations }) => [
+                `  ${request.method.toUpperCase()} ${request.uri}`,
+                ...violations.map((violation) => `    - ${violation}`),
+              ]),
+            ]
+          : []),
       ].join('\n')
     );
   }
 }
 
 export {
+  ContractViolationError,
   HttpMockError,
   InvalidRequestsError,
   RequestNotFoundError,
+  ResponsesExhaustedError,
   UnconfiguredResponseError,
+  UnknownProfileError,
+  UnmatchedRequestsError,
+  UnsatisfiedRequestsError,
 };
@@ -0,0 +1,221 @@
+import { callsToHar, Har, HarEntry, harToCassette } from './har';
+import { RecordedCall } from './types';
+
+const entry = (overrides: {
+  request?: Partial<HarEntry['request']>;
+  response?: Partial<HarEntry['response']>;
+}): HarEntry => ({
+  startedDateTime: '2024-01-01T00:00:00.000Z',
+  time: 12,
+  request: {
+    method: 'GET',
+    url: 'https://host.example/users?page=1',
+    httpVersion: 'HTTP/2',
+    cookies: [],
+    headers: [
+      { name: ':authority', value: 'host.example' },
+      { name: 'accept', value: 'application/json' },
+      { name: 'authorization', value: 'Bearer token' },
+    ],
+    queryString: [{ name: 'page', value: '1' }],
+    headersSize: -1,
+    bodySize: 0,
+    ...overrides.request,
+  },
+  response: {
+    status: 200,
+    statusText: 'OK',
+    httpVersion: 'HTTP/2',
+    cookies: [],
+    headers: [
+      { name: 'content-type', value: 'application/json' },
+      { name: 'vary', value: 'accept' },
+      { name: 'vary', value: 'origin' },
+    ],
+    content: {
+      size: 11,
+      mimeType: 'application/json',
+      text: '[{"id":1}]',
+    },
+    redirectURL: '',
+    headersSize: -1,
+    bodySize: -1,
+    ...overrides.response,
+  },
+  cache: {},
+  timings: { send: 0, wait: 0, receive: 0 },
+});
+
+const har = (...entries: HarEntry[]): Har => ({
+  log: { version: '1.2', creator: { name: 'browser', version: '1' }, entries },
+});
+
+describe(harToCassette.name, () => {
+  it('converts entries into interactions', () => {
+    expect(harToCassette(har(entry({})))).toEqual({
+      version: 1,
+      interactions: [
+        {
+          request: {
+            method: 'get',
+            uri: 'https://host.example/users',
+            params: { page: '1' },
+            headers: {
+              accept: 'application/json',
+              authorization: 'Bearer token',
+            },
+            body: undefined,
+          },
+          response: {
+            status: 200,
+            statusText: 'OK',
+            headers: {
+              'content-type': 'application/json',
+              vary: 'accept, origin',
+            },
+            data: [{ id: 1 }],
+          },
+          recordedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+  });
+
+  it('decodes post data', () => {
+    const { interactions } = harToCassette(
+      har(
+        entry({
+          request: {
+            method: 'POST',
+            postData: {
+              mimeType: 'application/x-www-form-urlencoded',
+              text: 'name=user&tags[]=a',
+            },
+          },
+        })
+      )
+    );
+
+    expect(interactions[0].request.body).toEqual({
+      name: 'user',
+      tags: ['a'],
+    });
+  });
+
+  it('keeps base64 encoded content', () => {
+    const { interactions } = harToCassette(
+      har(
+        entry({
+          response: {
+            content: {
+              size: 3,
+              mimeType: 'image/png',
+              text: 'AQID',
+              encoding: 'base64',
+            },
+          },
+        })
+      )
+    );
+
+    expect(interactions[0].response).toMatchObject({
+      data: 'AQID',
+      encoding: 'base64',
+    });
+  });
+
+  it('limits the headers used for matching', () => {
+    const cassette = (headers: boolean | string[]) =>
+      harToCassette(har(entry({})), { headers }).interactions[0].request
+        .headers;
+
+    expect(cassette(['Accept'])).toEqual({ accept: 'application/json' });
+    expect(cassette(false)).toBeUndefined();
+  });
+
+  it('skips entries with unsupported methods', () => {
+    const { interactions } = harToCassette(
+      har(entry({ request: { method: 'CONNECT' } }), entry({}))
+    );
+
+    expect(interactions).toHaveLength(1);
+  });
+});
+
+describe(callsToHar.name, () => {
+  const call: RecordedCall = {
+    method: 'post',
+    uri: 'https://host.example/users',
+    params: { page: 1, tag: ['a', 'b'] },
+    headers: { 'Content-Type': 'application/json' },
+    body: { name: 'user' },
+    request: null,
+    response: {
+      status: 201,
+      statusText: 'Created',
+      headers: { 'Content-Type': 'application/json' },
+      data: { id: 1 },
+    },
+    timestamp: new Date('2024-01-01T00:00:00.000Z'),
+    cancelled: false,
+  };
+
+  it('converts calls into entries', () => {
+    const { log } = callsToHar([call]);
+
+    expect(log.version).toEqual('1.2');
+    expect(log.entries[0]).toMatchObject({
+      startedDateTime: '2024-01-01T00:00:00.000Z',
+      request: {
+        method: 'POST',
+        url: 'https://host.example/users?page=1&tag=a&tag=b',
+        headers: [{ name: 'Content-Type', value: 'application/json' }],
+        queryString: [
+          { name: 'page', value: '1' },
+          { name: 'tag', value: 'a' },
+          { name: 'tag', value: 'b' },
+        ],
+        postData: { mimeType: 'application/json', text: '{"name":"user"}' },
+      },
+      response: {
+        status: 201,
+        statusText: 'Created',
+        content: { mimeType: 'application/json', text: '{"id":1}' },
+      },
+    });
+  });
+
+  it('encodes form bodies', () => {
+    const { log } = callsToHar([
+      {
+        ...call,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      },
+    ]);
+
+    expect(log.entries[0].request.postData?.text).toEqual('name=user');
+  });
+
+  it('reports calls without a response with a status of 0', () => {
+    const { log } = callsToHar([{ ...call, response: undefined }]);
+
+    expect(log.entries[0].response).toMatchObject({
+      status: 0,
+      content: { size: 0, text: undefined },
+    });
+  });
+
+  it('round trips through a cassette', () => {
+    const [{ request, response }] = harToCassette(
+      callsToHar([call])
+    ).interactions;
+
+    expect(request).toMatchObject({
+      method: 'post',
+      uri: call.uri,
+      params: { page: '1', tag: ['a', 'b'] },
+      body: call.body,
+    });
+    expect(response).toMatchObject({ status: 201, data: { id: 1 } });
+  });
+});
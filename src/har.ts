@@ -0,0 +1,237 @@
+import { readFileSync } from 'fs';
+
+import { decodeBody } from './body';
+import {
+  Cassette,
+  Headers,
+  Interaction,
+  Method,
+  METHODS,
+  Params,
+  RecordedCall,
+} from './types';
+import { normalizeUri } from './util';
+
+// The parts of the HAR 1.2 format (http://www.softwareishard.com/blog/har-12-spec/)
+// that describe requests and responses
+type HarNameValue = { name: string; value: string };
+
+type HarContent = {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+};
+
+type HarRequest = {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text?: string };
+  headersSize: number;
+  bodySize: number;
+};
+
+type HarResponse = {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+};
+
+type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+};
+
+type Har = {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+};
+
+type HarImportOptions = {
+  // Limit the headers that requests are matched on, or ignore them entirely
+  headers?: boolean | string[];
+};
+
+const readHar = (path: string): Har => JSON.parse(readFileSync(path, 'utf8'));
+
+const fromNameValues = (pairs: HarNameValue[]): Headers =>
+  pairs.reduce<Headers>((headers, { name, value }) => {
+    const current = headers[name];
+    return { ...headers, [name]: current ? `${current}, ${value}` : value };
+  }, {});
+
+const toNameValues = (record: Record<string, unknown> = {}): HarNameValue[] =>
+  Object.entries(record).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value])
+      .filter((v) => v !== undefined)
+      .map((v) => ({ name, value: String(v) }))
+  );
+
+const selectHeaders = (
+  headers: Headers,
+  selection: HarImportOptions['headers'] = true
+): Headers | undefined => {
+  if (selection === false) {
+    return undefined;
+  }
+
+  const names =
+    selection === true ? undefined : selection.map((n) => n.toLowerCase());
+
+  // HTTP/2 pseudo-headers such as `:authority` are never sent by Axios
+  return Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) =>
+        !name.startsWith(':') && (!names || names.includes(name.toLowerCase()))
+    )
+  );
+};
+
+const toInteraction = (
+  { startedDateTime, request, response }: HarEntry,
+  options?: HarImportOptions
+): Interaction => {
+  const { uri, params } = normalizeUri(request.url);
+  const { mimeType, text, encoding } = response.content;
+
+  return {
+    request: {
+      method: request.method.toLowerCase() as Method,
+      uri,
+      params,
+      headers: selectHeaders(fromNameValues(request.headers), options?.headers),
+      body: request.postData
+        ? decodeBody(request.postData.text, {
+            'content-type': request.postData.mimeType,
+          })
+        : undefined,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: fromNameValues(response.headers),
+      ...(encoding === 'base64'
+        ? { data: text, encoding: 'base64' }
+        : { data: decodeBody(text, { 'content-type': mimeType }) }),
+    },
+    recordedAt: startedDateTime,
+  };
+};
+
+// Convert HAR entries into a cassette, skipping requests with methods that
+// can't be mocked
+const harToCassette = (har: Har, options?: HarImportOptions): Cassette => ({
+  version: 1,
+  interactions: har.log.entries
+    .filter(({ request }) =>
+      METHODS.includes(request.method.toLowerCase() as Method)
+    )
+    .map((entry) => toInteraction(entry, options)),
+});
+
+const contentTypeOf = (headers: Headers = {}): string | undefined =>
+  Object.entries(headers).find(
+    ([name]) => name.toLowerCase() === 'content-type'
+  )?.[1];
+
+const encodeText = (data: unknown): Pick<HarContent, 'text' | 'encoding'> => {
+  if (data === undefined || data === null) {
+    return {};
+  }
+
+  if (Buffer.isBuffer(data)) {
+    return { text: data.toString('base64'), encoding: 'base64' };
+  }
+
+  return { text: typeof data === 'string' ? data : JSON.stringify(data) };
+};
+
+const buildUrl = (uri: string, params?: Params): string => {
+  const query = new URLSearchParams(
+    toNameValues(params).map(({ name, value }): [string, string] => [
+      name,
+      value,
+    ])
+  ).toString();
+
+  return query ? `${uri}?${query}` : uri;
+};
+
+const toEntry = (call: RecordedCall): HarEntry => {
+  const { method, uri, params, headers, body, response, timestamp } = call;
+  const requestType = contentTypeOf(headers);
+  const requestText = requestType?.startsWith(
+    'application/x-www-form-urlencoded'
+  )
+    ? buildUrl('', body as Params).slice(1)
+    : encodeText(body).text;
+  const { text, encoding } = encodeText(response?.data);
+
+  return {
+    startedDateTime: timestamp.toISOString(),
+    time: 0,
+    request: {
+      method: method.toUpperCase(),
+      url: buildUrl(uri, params),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(headers),
+      queryString: toNameValues(params),
+      ...(requestText !== undefined && {
+        postData: {
+          mimeType: requestType ?? 'application/json',
+          text: requestText,
+        },
+      }),
+      headersSize: -1,
+      bodySize: requestText?.length ?? 0,
+    },
+    // Requests that failed without a response are reported with a status of 0,
+    // as browsers do
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(response?.headers),
+      content: {
+        size: text?.length ?? 0,
+        mimeType: contentTypeOf(response?.headers) ?? '',
+        text,
+        encoding,
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: text?.length ?? 0,
+    },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+  };
+};
+
+const callsToHar = (calls: RecordedCall[]): Har => ({
+  log: {
+    version: '1.2',
+    creator: { name: '@reagent/axios-http-mock', version: '' },
+    entries: calls.map(toEntry),
+  },
+});
+
+export { Har, HarEntry, HarImportOptions, readHar, harToCassette, callsToHar };
@@ -1,10 +1,25 @@
-import Axios, { AxiosHeaders } from 'axios';
+import Axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  CanceledError,
+} from 'axios';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import httpStatus from 'http-status';
 
 import {
+  ContractViolationError,
   HttpMock,
   RequestNotFoundError,
   InvalidRequestsError,
+  ResponsesExhaustedError,
+  UnknownProfileError,
+  UnmatchedRequestsError,
+  UnsatisfiedRequestsError,
 } from './http-mock';
 
 describe(HttpMock.name, () => {
@@ -116,7 +131,7 @@ describe(HttpMock.name, () => {
           headers: { Accept: 'application/json' },
         });
 
-        await expect(operation).rejects.toThrow('Timeout');
+        await expect(operation).rejects.toThrow('timeout exceeded');
       });
 
       it('matches a configured request only once when using the `once()` modifier', async () => {
@@ -471,7 +486,7 @@ describe(HttpMock.name, () => {
           },
         });
 
-        await expect(operation).rejects.toThrow('Timeout');
+        await expect(operation).rejects.toThrow('timeout exceeded');
       });
 
       it('matches a configured request only once when using the `once()` modifier', async () => {
@@ -853,7 +868,7 @@ describe(HttpMock.name, () => {
           },
         });
 
-        await expect(operation).rejects.toThrow('Timeout');
+        await expect(operation).rejects.toThrow('timeout exceeded');
       });
 
       it('matches a configured request only once when using the `once()` modifier', async () => {
@@ -1208,7 +1223,7 @@ describe(HttpMock.name, () => {
           headers: { Accept: 'application/json' },
         });
 
-        await expect(operation).rejects.toThrow('Timeout');
+        await expect(operation).rejects.toThrow('timeout exceeded');
       });
 
       it('matches a configured request only once when using the `once()` modifier', async () => {
@@ -1410,4 +1425,1587 @@ describe(HttpMock.name, () => {
       });
     });
   });
+
+  describe('call history', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('records each request received by the adapter by method', async () => {
+      const request = httpMock
+        .on('post')
+        .to('https://host.example/path')
+        .respondWith(201);
+
+      await client.post(
+        'https://host.example/path',
+        { key: 'value' },
+        { params: { query: 'value' } }
+      );
+
+      expect(httpMock.history.get).toEqual([]);
+      expect(httpMock.history.post).toEqual([
+        expect.objectContaining({
+          method: 'post',
+          uri: 'https://host.example/path',
+          params: { query: 'value' },
+          body: { key: 'value' },
+          headers: expect.objectContaining({
+            'Content-Type': 'application/json',
+          }),
+          request,
+          timestamp: expect.any(Date),
+        }),
+      ]);
+    });
+
+    it('records requests that did not match a configured request', async () => {
+      await expect(client.get('https://host.example/other')).rejects.toThrow(
+        RequestNotFoundError
+      );
+
+      expect(httpMock.lastCall()).toMatchObject({
+        method: 'get',
+        uri: 'https://host.example/other',
+        request: null,
+      });
+    });
+
+    it('returns the calls that matched a specific request', async () => {
+      const one = httpMock
+        .on('get')
+        .to('https://host.example/one')
+        .respondWith(200);
+      const two = httpMock
+        .on('get')
+        .to('https://host.example/two')
+        .respondWith(200);
+
+      await client.get('https://host.example/one');
+      await client.get('https://host.example/two');
+      await client.get('https://host.example/one');
+
+      expect(httpMock.calls()).toHaveLength(3);
+      expect(httpMock.calls(one).map((c) => c.uri)).toEqual([
+        'https://host.example/one',
+        'https://host.example/one',
+      ]);
+      expect(httpMock.calls(two)).toHaveLength(1);
+      expect(httpMock.lastCall()?.request).toBe(one);
+    });
+
+    it('clears the history when reset', async () => {
+      httpMock.on('get').to('https://host.example/path').respondWith(200);
+      await client.get('https://host.example/path');
+
+      httpMock.reset();
+
+      expect(httpMock.history.get).toEqual([]);
+      expect(httpMock.calls()).toEqual([]);
+      expect(httpMock.lastCall()).toBeUndefined();
+    });
+  });
+
+  describe('verification', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('passes when every configured request was invoked', async () => {
+      httpMock.on('get').to('https://host.example/path').respondWith(200);
+      await client.get('https://host.example/path');
+
+      expect(() => httpMock.verify()).not.toThrow();
+    });
+
+    it('throws an `UnsatisfiedRequestsError` listing requests that were never invoked', async () => {
+      httpMock.on('get').to('https://host.example/one').respondWith(200);
+      httpMock.on('get').to('https://host.example/two').respondWith(200).once();
+
+      await client.get('https://host.example/one');
+
+      expect(() => httpMock.verify()).toThrow(UnsatisfiedRequestsError);
+      expect(() => httpMock.verify()).toThrow(
+        '"uri": "https://host.example/two"'
+      );
+      expect(() => httpMock.verify()).not.toThrow(
+        '"uri": "https://host.example/one"'
+      );
+      expect(() => httpMock.verify()).toThrow(
+        [
+          'Expected requests were not received:',
+          '',
+          'Expected exactly 1 invocation, received 0:',
+          '{',
+          '  "method": "get",',
+          '  "uri": "https://host.example/two"',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('throws an `UnsatisfiedRequestsError` when a minimum count was not reached', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .respondWith(503)
+        .twice();
+
+      httpMock.on('get').to('https://host.example/path').respondWith(200);
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        'Request failed with status code 503'
+      );
+
+      expect(() => httpMock.verify()).toThrow(UnsatisfiedRequestsError);
+      expect(() => httpMock.verify()).toThrow(
+        'Expected exactly 2 invocations, received 1:'
+      );
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        'Request failed with status code 503'
+      );
+
+      const { status } = await client.get('https://host.example/path');
+
+      expect(status).toBe(200);
+      expect(() => httpMock.verify()).not.toThrow();
+    });
+
+    it('throws an `UnmatchedRequestsError` when a request did not match', async () => {
+      httpMock.on('get').to('https://host.example/path').respondWith(200);
+
+      await client.get('https://host.example/path');
+      expect(() => httpMock.verifyNoUnmatchedRequests()).not.toThrow();
+
+      await expect(client.get('https://host.example/other')).rejects.toThrow(
+        RequestNotFoundError
+      );
+
+      expect(() => httpMock.verifyNoUnmatchedRequests()).toThrow(
+        UnmatchedRequestsError
+      );
+      expect(() => httpMock.verifyNoUnmatchedRequests()).toThrow(
+        '"uri": "https://host.example/other"'
+      );
+    });
+  });
+
+  describe('sequential responses', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({
+      adapter: httpMock.adapter,
+      validateStatus: () => true,
+    });
+
+    beforeEach(() => httpMock.reset());
+
+    it('returns a different response for each request', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .respondWith(503)
+        .thenRespondWith(503)
+        .thenRespondWith(200, { key: 'value' });
+
+      const statuses: number[] = [];
+
+      for (let i = 0; i < 4; i++) {
+        const { status } = await client.get('https://host.example/path');
+        statuses.push(status);
+      }
+
+      expect(statuses).toEqual([503, 503, 200, 200]);
+    });
+
+    it('throws once the responses are exhausted when configured to `throw`', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .respondWith(503)
+        .thenRespondWith(200)
+        .whenExhausted('throw');
+
+      await client.get('https://host.example/path');
+      await client.get('https://host.example/path');
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        ResponsesExhaustedError
+      );
+    });
+
+    it('falls through to the next match when configured to `fallthrough`', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .respondWith(503)
+        .thenRespondWith(502)
+        .whenExhausted('fallthrough');
+
+      httpMock.on('get').to('https://host.example/path').respondWith(200);
+
+      const statuses: number[] = [];
+
+      for (let i = 0; i < 3; i++) {
+        const { status } = await client.get('https://host.example/path');
+        statuses.push(status);
+      }
+
+      expect(statuses).toEqual([503, 502, 200]);
+    });
+  });
+
+  describe('dynamic responses', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('responds with the result of the configured callback', async () => {
+      httpMock
+        .on('post')
+        .to('https://host.example/resources')
+        .respondWith(({ body }) => [
+          httpStatus.CREATED,
+          { id: '1', ...(body as object) },
+          { location: '/resources/1' },
+        ]);
+
+      const { data, status, headers } = await client.post(
+        'https://host.example/resources',
+        { label: 'One' }
+      );
+
+      expect(status).toBe(httpStatus.CREATED);
+      expect(data).toEqual({ id: '1', label: 'One' });
+      expect(headers).toEqual(AxiosHeaders.from({ location: '/resources/1' }));
+    });
+
+    it('passes the request params and config to the callback', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/resources')
+        .respondWith(async ({ params, config }) => [
+          httpStatus.OK,
+          { page: params?.page, timeout: config.timeout },
+        ]);
+
+      const { data } = await client.get('https://host.example/resources', {
+        params: { page: 2 },
+        timeout: 1000,
+      });
+
+      expect(data).toEqual({ page: 2, timeout: 1000 });
+    });
+
+    it('rejects with an Axios error for an unsuccessful status', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .respondWith(() => [httpStatus.NOT_FOUND]);
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        'Request failed with status code 404'
+      );
+    });
+  });
+
+  describe('non-JSON request bodies', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('matches form encoded bodies', async () => {
+      httpMock
+        .on('post')
+        .to('https://host.example/path')
+        .with({ body: { key: 'value', other: 'value' } })
+        .respondWith(201);
+
+      const { status } = await client.post(
+        'https://host.example/path',
+        new URLSearchParams({ key: 'value', other: 'value' })
+      );
+
+      expect(status).toBe(201);
+    });
+
+    it('matches multipart bodies', async () => {
+      httpMock
+        .on('post')
+        .to('https://host.example/path')
+        .with({ body: { key: 'value' } })
+        .respondWith(201);
+
+      const { status } = await client.post(
+        'https://host.example/path',
+        { key: 'value' },
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+
+      expect(status).toBe(201);
+    });
+
+    it('matches plain text bodies', async () => {
+      httpMock
+        .on('post')
+        .to('https://host.example/path')
+        .with({ body: 'plain text' })
+        .respondWith(201);
+
+      const { status } = await client.post(
+        'https://host.example/path',
+        'plain text',
+        { headers: { 'Content-Type': 'text/plain' } }
+      );
+
+      expect(status).toBe(201);
+    });
+
+    it('matches binary bodies', async () => {
+      httpMock
+        .on('post')
+        .to('https://host.example/path')
+        .with({ body: Buffer.from('binary') })
+        .respondWith(201);
+
+      const { status } = await client.post(
+        'https://host.example/path',
+        Buffer.from('binary')
+      );
+
+      expect(status).toBe(201);
+      expect(httpMock.lastCall()?.body).toEqual(Buffer.from('binary'));
+    });
+  });
+
+  describe('URI patterns', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('exposes path params to dynamic responses and the call history', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/users/:id')
+        .respondWith(({ pathParams }) => [200, { id: pathParams.id }]);
+
+      const { data } = await client.get('https://host.example/users/42');
+
+      expect(data).toEqual({ id: '42' });
+      expect(httpMock.lastCall()?.pathParams).toEqual({ id: '42' });
+    });
+
+    it('matches any host with a wildcard', async () => {
+      httpMock.on('get').to('https://*/status').respondWith(204);
+
+      const { status } = await client.get('https://other.example/status');
+
+      expect(status).toBe(204);
+    });
+
+    it('matches a regular expression', async () => {
+      httpMock
+        .on('get')
+        .to(/\/items\/\d+$/)
+        .respondWith(200);
+
+      await expect(
+        client.get('https://host.example/items/1')
+      ).resolves.toMatchObject({ status: 200 });
+
+      await expect(client.get('https://host.example/items/x')).rejects.toThrow(
+        RequestNotFoundError
+      );
+    });
+  });
+
+  describe('query strings', () => {
+    it('matches query strings regardless of order or where they are given', async () => {
+      const httpMock = new HttpMock();
+      const client = Axios.create({
+        adapter: httpMock.adapter,
+        headers: { Accept: 'application/json' },
+      });
+
+      httpMock
+        .on('get')
+        .to('https://host.example/search?q=x&page=2')
+        .with({ headers: { Accept: 'application/json' } })
+        .respondWith(200);
+
+      await expect(
+        client.get('https://host.example/search?page=2&q=x')
+      ).resolves.toMatchObject({ status: 200 });
+
+      await expect(
+        client.get('https://host.example/search?q=x', { params: { page: 2 } })
+      ).resolves.toMatchObject({ status: 200 });
+
+      await expect(
+        client.get('https://host.example/search', {
+          params: { page: 2, q: 'x' },
+        })
+      ).resolves.toMatchObject({ status: 200 });
+
+      expect(httpMock.lastCall()).toMatchObject({
+        uri: 'https://host.example/search',
+        params: { page: 2, q: 'x' },
+      });
+    });
+
+    it('matches params as serialized by a custom `paramsSerializer`', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock
+        .on('get')
+        .to('https://host.example/search')
+        .with({ params: { ids: '1,2' } })
+        .respondWith(200);
+
+      const { status } = await client.get('https://host.example/search', {
+        params: { ids: [1, 2] },
+        paramsSerializer: {
+          serialize: (params) => `ids=${params.ids.join(',')}`,
+        },
+      });
+
+      expect(status).toBe(200);
+    });
+  });
+
+  describe('header matching', () => {
+    it('does not require restating default headers when using `subset` header matching', async () => {
+      const httpMock = new HttpMock({ headerMatching: 'subset' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .with({ headers: { authorization: 'Bearer token' } })
+        .respondWith(200);
+
+      const { status } = await client.get('https://host.example/path', {
+        headers: { Authorization: 'Bearer token' },
+      });
+
+      expect(status).toBe(200);
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        RequestNotFoundError
+      );
+    });
+  });
+
+  describe('network errors', () => {
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it.each([
+      ['timeout', 'ECONNABORTED', 'timeout of 500ms exceeded'],
+      ['networkError', 'ERR_NETWORK', 'Network Error'],
+      [
+        'connectionRefused',
+        'ECONNREFUSED',
+        'connect ECONNREFUSED host.example',
+      ],
+      ['connectionReset', 'ECONNRESET', 'socket hang up'],
+      ['dnsFailure', 'ENOTFOUND', 'getaddrinfo ENOTFOUND host.example'],
+      ['abort', 'ECONNABORTED', 'Request aborted'],
+    ] as const)(
+      'rejects with an `AxiosError` for `%s()`',
+      async (method, code, message) => {
+        httpMock.on('get').to('https://host.example/path')[method]();
+
+        const error = await client
+          .get('https://host.example/path', { timeout: 500 })
+          .catch((e) => e);
+
+        expect(Axios.isAxiosError(error)).toBe(true);
+        expect(error).toMatchObject({
+          code,
+          message,
+          config: expect.objectContaining({
+            url: 'https://host.example/path',
+          }),
+        });
+      }
+    );
+
+    it('uses the `ETIMEDOUT` code when timeout errors are clarified', async () => {
+      httpMock.on('get').to('https://host.example/path').timeout();
+
+      const request = client.get('https://host.example/path', {
+        transitional: { clarifyTimeoutError: true },
+      });
+
+      await expect(request).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+    });
+
+    it('can succeed after a network error', async () => {
+      httpMock
+        .on('get')
+        .to('https://host.example/path')
+        .networkError()
+        .thenRespondWith(200);
+
+      await expect(client.get('https://host.example/path')).rejects.toThrow(
+        'Network Error'
+      );
+
+      await expect(
+        client.get('https://host.example/path')
+      ).resolves.toMatchObject({ status: 200 });
+    });
+  });
+
+  describe('latency', () => {
+    const url = 'https://host.example/path';
+
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    const track = <T>(promise: Promise<T>) => {
+      const state = { settled: false };
+      promise.finally(() => (state.settled = true)).catch(() => undefined);
+      return state;
+    };
+
+    it('settles after the configured delay', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200).delay(1000);
+
+      const request = client.get(url);
+      const state = track(request);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(state.settled).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(request).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('settles within the configured delay range', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200).delayRange(100, 200);
+
+      const request = client.get(url);
+      const state = track(request);
+
+      await jest.advanceTimersByTimeAsync(99);
+      expect(state.settled).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(101);
+      await expect(request).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('applies the global latency unless overridden', async () => {
+      const httpMock = new HttpMock({ matching: 'partial', latency: 500 });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200);
+      httpMock.on('get').to(`${url}/fast`).respondWith(200).delay(0);
+
+      const slow = track(client.get(url));
+      const fast = track(client.get(`${url}/fast`));
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(fast.settled).toBe(true);
+      expect(slow.settled).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(slow.settled).toBe(true);
+    });
+
+    it('rejects with a timeout error when the delay exceeds the request timeout', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200).delay(5000);
+
+      const request = client.get(url, { timeout: 1000 });
+      const state = track(request);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(state.settled).toBe(true);
+      await expect(request).rejects.toMatchObject({
+        code: 'ECONNABORTED',
+        message: 'timeout of 1000ms exceeded',
+      });
+    });
+
+    it('rejects with a timeout error when a response is still pending', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      const deferred = httpMock.on('get').to(url).defer();
+      httpMock
+        .on('get')
+        .to(`${url}/slow`)
+        .respondWith(
+          () => new Promise((resolve) => setTimeout(() => resolve([200]), 5000))
+        );
+
+      const requests = [
+        client.get(url, { timeout: 1000 }),
+        client.get(`${url}/slow`, { timeout: 1000 }),
+      ];
+      const states = requests.map(track);
+
+      await jest.advanceTimersByTimeAsync(999);
+      expect(states.map(({ settled }) => settled)).toEqual([false, false]);
+
+      await jest.advanceTimersByTimeAsync(1);
+
+      for (const request of requests) {
+        await expect(request).rejects.toMatchObject({
+          code: 'ECONNABORTED',
+          message: 'timeout of 1000ms exceeded',
+        });
+      }
+
+      deferred.resolve(200);
+      await expect(client.get(url)).resolves.toMatchObject({ status: 200 });
+    });
+  });
+
+  describe('cancellation', () => {
+    const url = 'https://host.example/path';
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('rejects a pending response when the signal is aborted', async () => {
+      httpMock.on('get').to(url).respondWith(200).delay(10000);
+
+      const controller = new AbortController();
+      const request = client.get(url, { signal: controller.signal });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(request).rejects.toThrow(CanceledError);
+      expect(httpMock.lastCall()?.cancelled).toBe(true);
+    });
+
+    it('rejects a pending response when the cancel token is cancelled', async () => {
+      httpMock.on('get').to(url).respondWith(200).delay(10000);
+
+      const source = Axios.CancelToken.source();
+      const request = client.get(url, { cancelToken: source.token });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      source.cancel('no longer needed');
+
+      await expect(request).rejects.toThrow('no longer needed');
+      expect(httpMock.lastCall()?.cancelled).toBe(true);
+    });
+
+    it('rejects immediately when the signal was already aborted', async () => {
+      const stub = httpMock.on('get').to(url).respondWith(200);
+
+      const controller = new AbortController();
+      controller.abort();
+
+      const request = httpMock.adapter({
+        url,
+        method: 'get',
+        headers: new AxiosHeaders(),
+        signal: controller.signal,
+      });
+
+      await expect(request).rejects.toThrow(CanceledError);
+      expect(httpMock.calls(stub)).toMatchObject([{ cancelled: true }]);
+      expect(stub.isSatisfied()).toBe(false);
+    });
+
+    it('does not mark completed requests as cancelled', async () => {
+      httpMock.on('get').to(url).respondWith(200);
+
+      const controller = new AbortController();
+      await client.get(url, { signal: controller.signal });
+      controller.abort();
+
+      expect(httpMock.lastCall()?.cancelled).toBe(false);
+    });
+  });
+
+  describe('deferred responses', () => {
+    const url = 'https://host.example/path';
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => httpMock.reset());
+
+    it('keeps requests pending until resolved', async () => {
+      const pending = httpMock.on('get').to(url).defer();
+
+      let settled = 0;
+      const requests = [client.get(url), client.get(url)].map((r) =>
+        r.finally(() => settled++)
+      );
+
+      await flush();
+      expect(settled).toBe(0);
+      expect(httpMock.history.get).toHaveLength(2);
+
+      pending.resolve(200, { key: 'value' });
+
+      const responses = await Promise.all(requests);
+
+      expect(responses.map(({ data }) => data)).toEqual([
+        { key: 'value' },
+        { key: 'value' },
+      ]);
+      expect(pending.isSettled()).toBe(true);
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('rejects pending requests with the given error', async () => {
+      const pending = httpMock.on('get').to(url).defer();
+      const request = client.get(url);
+
+      await flush();
+      pending.reject(new Error('Upstream failure'));
+
+      await expect(request).rejects.toThrow('Upstream failure');
+    });
+
+    it('rejects pending requests when they are aborted', async () => {
+      httpMock.on('get').to(url).defer();
+
+      const controller = new AbortController();
+      const request = client.get(url, { signal: controller.signal });
+
+      await flush();
+      controller.abort();
+
+      await expect(request).rejects.toThrow(CanceledError);
+    });
+  });
+
+  describe('passthrough', () => {
+    let server: Server;
+    let baseURL: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        res.writeHead(req.url === '/missing' ? 404 : 200, {
+          'Content-Type': 'application/json',
+          'X-Fixture': 'true',
+        });
+        res.end(JSON.stringify({ method: req.method, path: req.url }));
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseURL = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+    it('forwards unmatched requests to the default adapter', async () => {
+      const httpMock = new HttpMock({
+        matching: 'partial',
+        onUnmatched: 'passthrough',
+      });
+      const client = Axios.create({ adapter: httpMock.adapter, baseURL });
+
+      httpMock.on('get').to(`${baseURL}/mocked`).respondWith(201);
+
+      await expect(client.get('/mocked')).resolves.toMatchObject({
+        status: 201,
+      });
+      await expect(client.get('/fixture')).resolves.toMatchObject({
+        status: 200,
+        data: { method: 'GET', path: '/fixture' },
+      });
+
+      expect(httpMock.lastCall()?.request).toBeNull();
+    });
+
+    it('forwards unmatched requests to the configured fallback adapter', async () => {
+      const fallbackAdapter: AxiosAdapter = jest.fn(async (config) => ({
+        status: 200,
+        statusText: 'OK',
+        data: 'fallback',
+        headers: {},
+        config,
+      }));
+
+      const httpMock = new HttpMock({
+        onUnmatched: 'passthrough',
+        fallbackAdapter,
+      });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      await expect(client.get('https://host.example')).resolves.toMatchObject({
+        data: 'fallback',
+      });
+      expect(fallbackAdapter).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws for unmatched requests by default', async () => {
+      const fallbackAdapter = jest.fn();
+      const httpMock = new HttpMock({ fallbackAdapter });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      await expect(client.get('https://host.example')).rejects.toThrow(
+        RequestNotFoundError
+      );
+      expect(fallbackAdapter).not.toHaveBeenCalled();
+    });
+
+    it('forwards requests configured to pass through', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter, baseURL });
+
+      const request = httpMock
+        .on('post')
+        .to(`${baseURL}/fixture`)
+        .passthrough();
+
+      const { data, headers } = await client.post('/fixture', { key: 'value' });
+
+      expect(data).toEqual({ method: 'POST', path: '/fixture' });
+      expect(headers['x-fixture']).toEqual('true');
+      expect(httpMock.lastCall()?.request).toBe(request);
+      expect(() => httpMock.verify()).not.toThrow();
+    });
+
+    it('validates the status of forwarded responses', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter, baseURL });
+
+      httpMock.on('get').to(`${baseURL}/missing`).passthrough();
+
+      const error = await client.get('/missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AxiosError);
+      expect(error.response).toMatchObject({
+        status: 404,
+        data: { method: 'GET', path: '/missing' },
+      });
+    });
+
+    it('passes through once the configured responses are exhausted', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter, baseURL });
+
+      httpMock
+        .on('get')
+        .to(`${baseURL}/fixture`)
+        .respondWith(200, 'mocked')
+        .whenExhausted('fallthrough');
+      httpMock.on('get').to(`${baseURL}/:path`).passthrough();
+
+      const first = await client.get('/fixture');
+      const second = await client.get('/fixture');
+
+      expect(first.data).toEqual('mocked');
+      expect(second.data).toEqual({ method: 'GET', path: '/fixture' });
+    });
+  });
+
+  describe('unmatched request policy', () => {
+    const url = 'https://host.example/path';
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('responds with a 404 when configured to', async () => {
+      const httpMock = new HttpMock({ onUnmatched: 'notFound' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      const error = await client.get(url).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AxiosError);
+      expect(error.response).toMatchObject({
+        status: 404,
+        statusText: 'Not Found',
+      });
+      expect(httpMock.lastCall()?.request).toBeNull();
+    });
+
+    it('logs a warning and responds with a 404 when configured to', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+
+      const httpMock = new HttpMock({ onUnmatched: 'warn' });
+      const client = Axios.create({
+        adapter: httpMock.adapter,
+        validateStatus: () => true,
+      });
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 404 });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('No match found for request');
+      expect(() => httpMock.verifyNoUnmatchedRequests()).toThrow(
+        UnmatchedRequestsError
+      );
+    });
+
+    it('responds with the result of a configured handler', async () => {
+      const httpMock = new HttpMock({
+        onUnmatched: ({ method, uri }) => [200, { method, uri }],
+      });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      await expect(client.get(url)).resolves.toMatchObject({
+        status: 200,
+        data: { method: 'get', uri: url },
+      });
+    });
+
+    it('throws when the handler does not return a response', async () => {
+      const httpMock = new HttpMock({ onUnmatched: async () => undefined });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      await expect(client.get(url)).rejects.toThrow(RequestNotFoundError);
+    });
+
+    it('applies the configured latency to synthetic responses', async () => {
+      jest.useFakeTimers();
+
+      try {
+        const httpMock = new HttpMock({
+          onUnmatched: 'notFound',
+          latency: 100,
+        });
+        const client = Axios.create({ adapter: httpMock.adapter });
+
+        let settled = false;
+        const request = client.get(url).catch((e) => {
+          settled = true;
+          return e;
+        });
+
+        await jest.advanceTimersByTimeAsync(50);
+        expect(settled).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(50);
+        expect((await request).response.status).toBe(404);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('loading cassettes', () => {
+    const url = 'https://host.example/users';
+    const httpMock = new HttpMock({ headerMatching: 'subset' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    const interaction = (status: number, data: unknown) => ({
+      request: { method: 'get' as const, uri: url, params: { page: '1' } },
+      response: { status, statusText: '', headers: { 'x-page': '1' }, data },
+      recordedAt: new Date().toISOString(),
+    });
+
+    beforeEach(() => httpMock.reset());
+
+    it('registers a request for each recorded interaction', async () => {
+      const [request] = httpMock.load({
+        version: 1,
+        interactions: [interaction(200, [{ id: 1 }])],
+      });
+
+      await expect(
+        client.get(url, { params: { page: 1 } })
+      ).resolves.toMatchObject({
+        status: 200,
+        headers: { 'x-page': '1' },
+        data: [{ id: 1 }],
+      });
+      await expect(client.get(url)).rejects.toThrow(RequestNotFoundError);
+
+      expect(httpMock.calls(request)).toHaveLength(1);
+    });
+
+    it('responds to repeated interactions in the order recorded', async () => {
+      const requests = httpMock.load({
+        version: 1,
+        interactions: [interaction(503, null), interaction(200, 'ok')],
+      });
+
+      expect(requests).toHaveLength(1);
+
+      await expect(
+        client.get(url, { params: { page: 1 } })
+      ).rejects.toMatchObject({ response: { status: 503 } });
+      await expect(
+        client.get(url, { params: { page: 1 } })
+      ).resolves.toMatchObject({ data: 'ok' });
+    });
+
+    it('decodes binary responses', async () => {
+      httpMock.load({
+        version: 1,
+        interactions: [
+          {
+            ...interaction(200, Buffer.from('binary').toString('base64')),
+            response: {
+              ...interaction(200, null).response,
+              data: Buffer.from('binary').toString('base64'),
+              encoding: 'base64',
+            },
+          },
+        ],
+      });
+
+      const { data } = await client.get(url, {
+        params: { page: 1 },
+        responseType: 'arraybuffer',
+      });
+
+      expect(Buffer.from(data).toString()).toEqual('binary');
+    });
+  });
+
+  describe('HAR files', () => {
+    const url = 'https://host.example/users';
+    const httpMock = new HttpMock({
+      matching: 'partial',
+      headerMatching: 'subset',
+    });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    beforeEach(() => httpMock.reset());
+
+    it('replays exported history from a HAR', async () => {
+      httpMock
+        .on('post')
+        .to(url)
+        .respondWith(({ body }) => [201, { id: 1, ...(body as object) }]);
+      await client.post(url, { name: 'user' }, { params: { page: 2 } });
+
+      const har = httpMock.toHar();
+      httpMock.reset();
+
+      const [request] = httpMock.loadHar(har);
+
+      await expect(
+        client.post(url, { name: 'user' }, { params: { page: 2 } })
+      ).resolves.toMatchObject({ status: 201, data: { id: 1, name: 'user' } });
+      await expect(client.post(url, { name: 'other' })).rejects.toThrow(
+        RequestNotFoundError
+      );
+
+      expect(request.uri).toEqual(url);
+    });
+
+    it('exports responses for failed requests', async () => {
+      httpMock.on('get').to(url).respondWith(404, { error: 'Not Found' });
+      httpMock.on('get').to(`${url}/1`).networkError();
+
+      await client.get(url).catch(() => undefined);
+      await client.get(`${url}/1`).catch(() => undefined);
+
+      const [missing, failed] = httpMock.toHar().log.entries;
+
+      expect(missing.response).toMatchObject({
+        status: 404,
+        content: { text: '{"error":"Not Found"}' },
+      });
+      expect(failed.response.status).toBe(0);
+    });
+  });
+
+  describe('OpenAPI documents', () => {
+    const url = 'https://api.example/users';
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    const document = {
+      openapi: '3.0.3',
+      servers: [{ url: 'https://api.example' }],
+      paths: {
+        '/users/{id}': {
+          get: {
+            parameters: [
+              {
+                name: 'id',
+                in: 'path' as const,
+                required: true,
+                schema: { type: 'integer' },
+              },
+            ],
+            responses: {
+              '200': {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      required: ['id', 'name'],
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string', example: 'user' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    beforeEach(() => httpMock.reset());
+
+    it('registers a request for each operation', async () => {
+      const [request] = httpMock.loadOpenApi(document);
+
+      await expect(client.get(`${url}/1`)).resolves.toMatchObject({
+        status: 200,
+        data: { id: 0, name: 'user' },
+      });
+
+      expect(request.uri).toEqual(`${url}/:id`);
+    });
+
+    it('matches the stubs on the method and URI in strict mode', async () => {
+      const strictMock = new HttpMock();
+      const strictClient = Axios.create({ adapter: strictMock.adapter });
+
+      strictMock.loadOpenApi(document);
+
+      await expect(strictClient.get(`${url}/3`)).resolves.toMatchObject({
+        status: 200,
+      });
+      expect(() => strictMock.verify()).not.toThrow();
+    });
+
+    it('loads a document from a file', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'openapi-'));
+      const path = join(directory, 'openapi.json');
+
+      try {
+        writeFileSync(path, JSON.stringify(document));
+        httpMock.loadOpenApi(path);
+
+        await expect(client.get(`${url}/1`)).resolves.toMatchObject({
+          status: 200,
+        });
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('rejects requests that do not conform to the document', async () => {
+      httpMock.loadOpenApi(document);
+
+      const error = await client.get(`${url}/abc`).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ContractViolationError);
+      expect(error.message).toContain('path.id must be integer');
+      expect(httpMock.lastCall()?.uri).toEqual(`${url}/abc`);
+
+      await expect(client.delete(`${url}/1`)).rejects.toThrow(
+        'DELETE is not described for this path'
+      );
+    });
+
+    it('validates configured responses when enabled', async () => {
+      httpMock.loadOpenApi(document, {
+        stubs: false,
+        validateResponses: true,
+      });
+
+      httpMock.on('get').to(`${url}/1`).respondWith(200, { id: 1, name: 'a' });
+      httpMock.on('get').to(`${url}/2`).respondWith(200, { id: '2' });
+      httpMock.on('get').to(`${url}/3`).respondWith(404);
+
+      await expect(client.get(`${url}/1`)).resolves.toMatchObject({
+        status: 200,
+      });
+      await expect(client.get(`${url}/2`)).rejects.toThrow(
+        ContractViolationError
+      );
+      await expect(client.get(`${url}/3`)).rejects.toThrow(
+        'status 404 is not described'
+      );
+    });
+  });
+
+  describe('body schemas', () => {
+    const url = 'https://host.example/users';
+    const httpMock = new HttpMock();
+    const client = Axios.create({
+      adapter: httpMock.adapter,
+      headers: { Accept: 'application/json' },
+    });
+
+    beforeEach(() => httpMock.reset());
+
+    it('matches requests with bodies that conform to the schema', async () => {
+      httpMock
+        .on('post')
+        .to(url)
+        .with({
+          headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+          },
+        })
+        .withBodySchema({
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' } },
+        })
+        .respondWith(201);
+
+      await expect(
+        client.post(url, { name: 'user', extra: true })
+      ).resolves.toMatchObject({ status: 201 });
+
+      const error = await client.post(url, { name: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(RequestNotFoundError);
+      expect(error.message).toContain(
+        [
+          'Body schema violations:',
+          `  POST ${url}`,
+          '    - body.name must be string',
+        ].join('\n')
+      );
+      expect(error.diagnostics).toHaveLength(1);
+    });
+  });
+
+  describe('scenarios', () => {
+    const url = 'https://host.example/orders/1';
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({ adapter: httpMock.adapter });
+
+    const status = async () => (await client.get(url)).data.status;
+
+    beforeEach(() => {
+      httpMock.reset();
+
+      httpMock
+        .on('get')
+        .to(url)
+        .inScenario('checkout')
+        .whenState('Started')
+        .respondWith(200, { status: 'pending' });
+
+      httpMock
+        .on('post')
+        .to(`${url}/payment`)
+        .inScenario('checkout')
+        .willSetStateTo('paid')
+        .respondWith(201);
+
+      httpMock
+        .on('get')
+        .to(url)
+        .inScenario('checkout')
+        .whenState('paid')
+        .willSetStateTo('shipped')
+        .respondWith(200, { status: 'paid' });
+
+      httpMock
+        .on('get')
+        .to(url)
+        .inScenario('checkout')
+        .whenState('shipped')
+        .respondWith(200, { status: 'shipped' });
+    });
+
+    it('responds according to the state of the scenario', async () => {
+      expect(await status()).toEqual('pending');
+      expect(await status()).toEqual('pending');
+
+      await client.post(`${url}/payment`);
+
+      expect(httpMock.scenarios.stateOf('checkout')).toEqual('paid');
+      expect(await status()).toEqual('paid');
+      expect(await status()).toEqual('shipped');
+      expect(httpMock.scenarios.stateOf('checkout')).toEqual('shipped');
+    });
+
+    it('allows the state to be set directly', async () => {
+      httpMock.scenarios.set('checkout', 'shipped');
+      expect(await status()).toEqual('shipped');
+    });
+
+    it('does not match requests for other states', async () => {
+      httpMock.scenarios.set('checkout', 'cancelled');
+      await expect(client.get(url)).rejects.toThrow(RequestNotFoundError);
+    });
+
+    it('resets the scenarios along with the mock', () => {
+      httpMock.scenarios.set('checkout', 'paid');
+      httpMock.reset();
+
+      expect(httpMock.scenarios.stateOf('checkout')).toEqual('Started');
+    });
+  });
+
+  describe('profiles', () => {
+    const auth = 'https://auth.example/session';
+    const billing = 'https://billing.example/invoices';
+
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({
+      adapter: httpMock.adapter,
+      validateStatus: () => true,
+    });
+
+    const status = async (url: string) => (await client.get(url)).status;
+
+    beforeAll(() => {
+      HttpMock.defineProfile('auth-ok', (mock) => {
+        mock.on('get').to(auth).respondWith(200);
+        mock.on('get').to(billing).respondWith(200);
+      });
+
+      HttpMock.defineProfile('billing-down', (mock) => {
+        mock.on('get').to(billing).respondWith(503);
+      });
+    });
+
+    beforeEach(() => httpMock.reset());
+
+    it('registers the requests defined by each profile', async () => {
+      httpMock.use('auth-ok');
+
+      expect(await status(auth)).toBe(200);
+      expect(await status(billing)).toBe(200);
+    });
+
+    it('gives precedence to later profiles', async () => {
+      httpMock.use('auth-ok', 'billing-down');
+
+      expect(await status(auth)).toBe(200);
+      expect(await status(billing)).toBe(503);
+
+      httpMock.use('auth-ok');
+      expect(await status(billing)).toBe(200);
+    });
+
+    it('gives precedence to requests registered after a profile', async () => {
+      httpMock.on('get').to(billing).respondWith(404);
+      httpMock.use('billing-down');
+      expect(await status(billing)).toBe(503);
+
+      httpMock.on('get').to(billing).respondWith(402);
+      expect(await status(billing)).toBe(402);
+    });
+
+    it('removes the requests registered by a profile', async () => {
+      httpMock.use('auth-ok', 'billing-down');
+      httpMock.on('get').to(auth).respondWith(401);
+
+      httpMock.unuse('billing-down');
+      expect(await status(billing)).toBe(200);
+
+      httpMock.unuse('auth-ok');
+      expect(await status(auth)).toBe(401);
+      await expect(client.get(billing)).rejects.toThrow(RequestNotFoundError);
+    });
+
+    it('throws for profiles that have not been defined', () => {
+      expect(() => httpMock.use('missing')).toThrow(UnknownProfileError);
+    });
+  });
+
+  describe('scopes and snapshots', () => {
+    const url = 'https://host.example/path';
+    const httpMock = new HttpMock({ matching: 'partial' });
+    const client = Axios.create({
+      adapter: httpMock.adapter,
+      validateStatus: () => true,
+    });
+
+    const status = async (path = url) => (await client.get(path)).status;
+
+    beforeAll(() => {
+      httpMock.reset();
+      httpMock.on('get').to(url).respondWith(200);
+    });
+
+    it('overrides outer requests within a scope', async () => {
+      const result = await httpMock.scope(async (scoped) => {
+        scoped.on('get').to(url).respondWith(503);
+        scoped.on('get').to(`${url}/inner`).respondWith(204);
+
+        expect(await status()).toBe(503);
+        expect(await status(`${url}/inner`)).toBe(204);
+
+        return 'result';
+      });
+
+      expect(result).toEqual('result');
+      expect(await status()).toBe(200);
+      await expect(client.get(`${url}/inner`)).rejects.toThrow(
+        RequestNotFoundError
+      );
+    });
+
+    it('restores the requests when the scope throws', async () => {
+      await expect(
+        httpMock.scope((scoped) => {
+          scoped.on('get').to(url).respondWith(503);
+          throw new Error('Failed');
+        })
+      ).rejects.toThrow('Failed');
+
+      expect(await status()).toBe(200);
+    });
+
+    it('supports nested scopes', async () => {
+      await httpMock.scope(async (outer) => {
+        outer.on('get').to(url).respondWith(500);
+
+        await outer.scope(async (inner) => {
+          inner.on('get').to(url).respondWith(503);
+          expect(await status()).toBe(503);
+        });
+
+        expect(await status()).toBe(500);
+      });
+
+      expect(await status()).toBe(200);
+    });
+
+    describe('with a snapshot', () => {
+      let snapshot: ReturnType<HttpMock['snapshot']>;
+
+      beforeEach(() => (snapshot = httpMock.snapshot()));
+      afterEach(() => snapshot.restore());
+
+      it('overrides outer requests until restored', async () => {
+        httpMock.on('get').to(url).respondWith(404);
+        expect(await status()).toBe(404);
+      });
+
+      it('starts from the outer requests in each test', async () => {
+        expect(await status()).toBe(200);
+      });
+
+      describe('with limited and sequenced requests', () => {
+        beforeAll(() => {
+          httpMock.on('get').to(`${url}/once`).respondWith(204).once();
+          httpMock
+            .on('get')
+            .to(`${url}/sequence`)
+            .respondWith(503)
+            .thenRespondWith(200);
+        });
+
+        it.each([1, 2])('restores the invocation counts (%i)', async () => {
+          expect(await status(`${url}/once`)).toBe(204);
+          expect(await status(`${url}/sequence`)).toBe(503);
+          expect(await status(`${url}/sequence`)).toBe(200);
+        });
+      });
+    });
+  });
+
+  describe('removing requests', () => {
+    const url = 'https://host.example/path';
+
+    it('removes a request from the mock', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      const fallback = httpMock.on('get').to(url).respondWith(200);
+      const override = httpMock
+        .on('get')
+        .to(url)
+        .with({ params: { key: 'value' } })
+        .respondWith(201);
+
+      await expect(
+        client.get(url, { params: { key: 'value' } })
+      ).resolves.toMatchObject({ status: 201 });
+
+      httpMock.remove(override);
+
+      await expect(
+        client.get(url, { params: { key: 'value' } })
+      ).resolves.toMatchObject({ status: 200 });
+
+      fallback.dispose();
+
+      await expect(client.get(url)).rejects.toThrow(RequestNotFoundError);
+    });
+
+    it('appends duplicate requests by default', async () => {
+      const httpMock = new HttpMock({ matching: 'partial' });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200);
+      httpMock.on('get').to(url).respondWith(201);
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 200 });
+      expect(() => httpMock.verify()).toThrow(UnsatisfiedRequestsError);
+    });
+
+    it('replaces duplicate requests when configured to', async () => {
+      const httpMock = new HttpMock({
+        matching: 'partial',
+        duplicates: 'replace',
+      });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      httpMock.on('get').to(url).respondWith(200);
+      httpMock
+        .on('get')
+        .to(url)
+        .with({ params: { key: 'value' } })
+        .respondWith(202);
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 200 });
+
+      httpMock.on('get').to(url).respondWith(201);
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 201 });
+      await expect(
+        client.get(url, { params: { key: 'value' } })
+      ).resolves.toMatchObject({ status: 202 });
+      expect(() => httpMock.verify()).not.toThrow();
+    });
+
+    it('only replaces duplicates registered on the same layer', async () => {
+      const httpMock = new HttpMock({
+        matching: 'partial',
+        duplicates: 'replace',
+      });
+      const client = Axios.create({ adapter: httpMock.adapter });
+
+      HttpMock.defineProfile('duplicates-ok', (mock) => {
+        mock.on('get').to(url).respondWith(200);
+      });
+      HttpMock.defineProfile('duplicates-down', (mock) => {
+        mock.on('get').to(url).respondWith(503);
+      });
+
+      httpMock.use('duplicates-ok', 'duplicates-down');
+
+      await expect(client.get(url)).rejects.toMatchObject({
+        response: { status: 503 },
+      });
+
+      httpMock.unuse('duplicates-down');
+
+      await expect(client.get(url)).resolves.toMatchObject({ status: 200 });
+    });
+  });
 });
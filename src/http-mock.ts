@@ -1,58 +1,347 @@
-import { AxiosAdapter } from 'axios';
+import Axios, {
+  AxiosAdapter,
+  AxiosHeaders,
+  AxiosPromise,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  isAxiosError,
+  isCancel,
+} from 'axios';
+import httpStatus from 'http-status';
 
 import {
   Headers,
+  HeaderMatchMode,
+  Latency,
   Method,
+  METHODS,
   MatchMode,
-  RequestOptions,
   MockRegistry,
+  RecordedCall,
+  CallHistory,
+  Cassette,
+  DuplicatePolicy,
+  Snapshot,
+  UnmatchedPolicy,
 } from './types';
-import { InvalidRequestsError, RequestNotFoundError } from './errors';
-import { Request } from './request';
+import { deserializeData, readCassette } from './cassette';
+import {
+  callsToHar,
+  Har,
+  HarImportOptions,
+  harToCassette,
+  readHar,
+} from './har';
+import {
+  ContractViolationError,
+  InvalidRequestsError,
+  RequestNotFoundError,
+  ResponsesExhaustedError,
+  UnmatchedRequestsError,
+  UnknownProfileError,
+  UnsatisfiedRequestsError,
+} from './errors';
+import {
+  OpenApiContract,
+  OpenApiDocument,
+  OpenApiOptions,
+  readOpenApi,
+} from './openapi';
+import { Request, Response, ResponseTuple } from './request';
+import { Resource, ResourceOptions } from './resource';
+import { Scenarios } from './scenarios';
 import { RequestMatcher } from './request-matcher';
-import { extractRequestHeaders, joinUri, settle } from './util';
+import {
+  cancellable,
+  copyGroups,
+  describeRequest,
+  groupByMethod,
+  resolveLatency,
+  settle,
+} from './util';
+
+const responseOf = ({
+  status,
+  statusText,
+  data,
+  headers,
+}: AxiosResponse): Response => ({
+  status,
+  statusText,
+  data,
+  headers: AxiosHeaders.from(headers as AxiosHeaders).toJSON(true) as Headers,
+});
+
+type ProfileSetup = (mock: HttpMock) => void;
 
 type MockOptions = {
-  matching: MatchMode;
+  matching?: MatchMode;
+  headerMatching?: HeaderMatchMode;
+  latency?: Latency;
+  onUnmatched?: UnmatchedPolicy;
+  fallbackAdapter?: AxiosAdapter;
+  duplicates?: DuplicatePolicy;
 };
 
 class HttpMock {
+  protected static definedProfiles = new Map<string, ProfileSetup>();
+
   protected registry: MockRegistry;
   protected mode: MatchMode;
+  protected headerMode: HeaderMatchMode;
+  protected latency?: Latency;
+  protected onUnmatched: UnmatchedPolicy;
+  protected fallbackAdapter: AxiosAdapter;
+  protected duplicates: DuplicatePolicy;
+
+  protected contracts: OpenApiContract[] = [];
+  protected _scenarios = new Scenarios();
+
+  protected layer = 0;
+  protected profiles = new Map<string, Request[]>();
+
+  protected recorded: RecordedCall[] = [];
+  protected _history: CallHistory;
+
+  // Define a reusable set of requests that can be applied to any mock with
+  // `use()`
+  static defineProfile(name: string, setup: ProfileSetup): void {
+    HttpMock.definedProfiles.set(name, setup);
+  }
 
   constructor(options?: MockOptions) {
-    // TODO: reduce ??
-    this.registry = {
-      get: [],
-      post: [],
-      put: [],
-      delete: [],
-      head: [],
-      link: [],
-      options: [],
-      patch: [],
-      purge: [],
-      unlink: [],
-    };
+    this.registry = groupByMethod<Request>();
+    this._history = groupByMethod<RecordedCall>();
 
     this.mode = options?.matching ?? 'strict';
+    this.headerMode = options?.headerMatching ?? 'exact';
+    this.latency = options?.latency;
+    this.onUnmatched = options?.onUnmatched ?? 'throw';
+    this.fallbackAdapter =
+      options?.fallbackAdapter ?? Axios.getAdapter(Axios.defaults.adapter);
+    this.duplicates = options?.duplicates ?? 'append';
   }
 
   reset(): void {
-    for (const method of Object.keys(this.registry)) {
-      this.registry[method as Method] = [];
+    this.registry = groupByMethod<Request>();
+    this._history = groupByMethod<RecordedCall>();
+    this.recorded = [];
+    this.contracts = [];
+    this._scenarios.reset();
+    this.layer = 0;
+    this.profiles.clear();
+  }
+
+  // Apply profiles in order, each on a new layer so that it takes precedence
+  // over the requests registered before it. Reapplying a profile moves it to
+  // the top.
+  use(...names: string[]): this {
+    for (const name of names) {
+      const setup = HttpMock.definedProfiles.get(name);
+
+      if (!setup) {
+        throw new UnknownProfileError(name);
+      }
+
+      this.unuse(name);
+
+      const existing = new Set(this.requests);
+
+      this.layer++;
+      setup(this);
+      this.layer++;
+
+      this.profiles.set(
+        name,
+        this.requests.filter((request) => !existing.has(request))
+      );
+    }
+
+    return this;
+  }
+
+  // Capture the configured requests, profiles, and documents so that they can be restored
+  // later, along with how many times each request has been invoked. Requests
+  // registered after the snapshot take precedence over those captured in it.
+  snapshot(): Snapshot {
+    const registry = copyGroups(this.registry);
+    const invocations = new Map(
+      this.requests.map((request) => [request, request.invocations])
+    );
+    const profiles = new Map(this.profiles);
+    const contracts = [...this.contracts];
+    const layer = this.layer;
+
+    this.layer++;
+
+    return {
+      restore: () => {
+        this.registry = copyGroups(registry);
+        invocations.forEach((count, request) => request.rewind(count));
+        this.profiles = new Map(profiles);
+        this.contracts = [...contracts];
+        this.layer = layer;
+      },
+    };
+  }
+
+  // Run the callback with a snapshot that is restored once it completes, so
+  // requests registered within the scope are removed afterwards
+  async scope<T>(callback: (mock: this) => T | Promise<T>): Promise<T> {
+    const snapshot = this.snapshot();
+
+    try {
+      return await callback(this);
+    } finally {
+      snapshot.restore();
+    }
+  }
+
+  // Remove the requests registered by the given profiles
+  unuse(...names: string[]): this {
+    for (const name of names) {
+      this.deregister(this.profiles.get(name) ?? []);
+      this.profiles.delete(name);
+    }
+
+    return this;
+  }
+
+  get history(): CallHistory {
+    return this._history;
+  }
+
+  get scenarios(): Scenarios {
+    return this._scenarios;
+  }
+
+  calls(request?: Request): RecordedCall[] {
+    if (!request) {
+      return [...this.recorded];
+    }
+
+    return this.recorded.filter((call) => call.request === request);
+  }
+
+  lastCall(): RecordedCall | undefined {
+    return this.recorded[this.recorded.length - 1];
+  }
+
+  verify(): void {
+    this.replaceDuplicates();
+
+    const unsatisfied = Object.values(this.registry)
+      .flat()
+      .filter((request) => !request.isSatisfied());
+
+    if (unsatisfied.length > 0) {
+      throw new UnsatisfiedRequestsError(unsatisfied);
+    }
+  }
+
+  verifyNoUnmatchedRequests(): void {
+    const unmatched = this.recorded.filter((call) => !call.request);
+
+    if (unmatched.length > 0) {
+      throw new UnmatchedRequestsError(unmatched);
     }
   }
 
   on(method: Method): Request {
-    const matcher = new Request(method);
+    const matcher = new Request(method, this.layer, (request) =>
+      this.remove(request)
+    );
     this.registry[method].push(matcher);
 
     return matcher;
   }
 
+  remove(request: Request): void {
+    this.deregister([request]);
+  }
+
+  resource<T extends Record<string, unknown>>(
+    uri: string,
+    options?: ResourceOptions<T>
+  ): Resource<T> {
+    return new Resource<T>(uri, (method) => this.on(method), options);
+  }
+
+  // Register a request for each interaction in a cassette, or the path to one.
+  // Repeated interactions respond in the order they were recorded.
+  load(cassette: Cassette | string): Request[] {
+    const { interactions } =
+      typeof cassette === 'string' ? readCassette(cassette) : cassette;
+
+    const loaded = new Map<string, Request>();
+
+    for (const { request, response } of interactions) {
+      const key = JSON.stringify(request);
+      const tuple = (): ResponseTuple => [
+        response.status,
+        deserializeData(response),
+        response.headers,
+      ];
+
+      const existing = loaded.get(key);
+
+      if (existing) {
+        existing.thenRespondWith(tuple);
+        continue;
+      }
+
+      const { method, uri, ...options } = request;
+      loaded.set(key, this.on(method).to(uri).with(options).respondWith(tuple));
+    }
+
+    return [...loaded.values()];
+  }
+
+  // Register a request for each entry in a HAR file, or the path to one
+  loadHar(har: Har | string, options?: HarImportOptions): Request[] {
+    return this.load(
+      harToCassette(typeof har === 'string' ? readHar(har) : har, options)
+    );
+  }
+
+  // Register a request for each operation in an OpenAPI 3 document, or the path
+  // to one, and validate requests (and optionally responses) against it
+  loadOpenApi(
+    document: OpenApiDocument | string,
+    options?: OpenApiOptions
+  ): Request[] {
+    const contract = new OpenApiContract(
+      typeof document === 'string' ? readOpenApi(document) : document,
+      options
+    );
+
+    this.contracts.push(contract);
+
+    if (options?.stubs === false) {
+      return [];
+    }
+
+    // The stubs stand in for the whole API, so they match on the method and URI
+    // alone and are not required to be called
+    return contract.stubs().map(({ method, uri, response }) =>
+      this.on(method)
+        .to(uri)
+        .withAnyOptions()
+        .atLeast(0)
+        .respondWith(() => response)
+    );
+  }
+
+  toHar(): Har {
+    return callsToHar(this.recorded);
+  }
+
   get adapter(): AxiosAdapter {
     return (config) => {
+      const { method, uri, ...options } = describeRequest(config);
+
+      this.replaceDuplicates();
+
       const invalidRequests: Request[] = [];
 
       for (const request of Object.values(this.registry).flat()) {
@@ -62,41 +351,230 @@ class HttpMock {
       }
 
       if (invalidRequests.length > 0) {
+        this.record({ method, uri, ...options, request: null });
         throw new InvalidRequestsError(invalidRequests);
       }
 
-      const method = config.method as Method;
-      const uri = joinUri(config.baseURL, config.url);
+      const matcher = new RequestMatcher(
+        this.registry[method],
+        this.mode,
+        this.headerMode,
+        this._scenarios
+      );
+      const request = matcher.matchFor(uri, options);
+      const notFound = () =>
+        new RequestNotFoundError(
+          config,
+          this.registry,
+          matcher.diagnose(uri, options)
+        );
 
-      const matcher = new RequestMatcher(this.registry[method], this.mode);
+      const pathParams = request?.matchUri(uri) ?? {};
 
-      let headers: Headers | undefined = undefined;
-      let body;
+      const call = this.record({
+        method,
+        uri,
+        ...options,
+        pathParams,
+        request,
+      });
 
-      if (config.data) {
-        body = JSON.parse(config.data); // TODO, we don't always do JSON
-      }
+      const violations = this.contracts.flatMap((contract) =>
+        contract.validateRequest({ method, uri, ...options })
+      );
 
-      // These will always be present in practice
-      if (config.headers) {
-        headers = extractRequestHeaders(config.headers);
+      if (violations.length > 0) {
+        throw new ContractViolationError(
+          `Request ${method.toUpperCase()} ${uri}`,
+          violations
+        );
       }
 
-      const options: RequestOptions = {
-        body,
-        headers,
-        params: config.params,
-      };
+      if (!request) {
+        if (this.onUnmatched === 'passthrough') {
+          return this.capture(
+            call,
+            this.conform(method, uri, this.fallbackAdapter(config))
+          );
+        }
 
-      const request = matcher.matchFor(uri, options);
+        if (this.onUnmatched === 'throw') {
+          throw notFound();
+        }
+      }
 
-      if (!request) {
-        throw new RequestNotFoundError(config, this.registry);
+      if (request) {
+        this._scenarios.advance(request);
       }
 
-      return settle(request, config);
+      const responder = request ?? this.unmatched(method, notFound());
+      const passthrough = () => this.passthrough(config);
+
+      return this.capture(
+        call,
+        this.conform(
+          method,
+          uri,
+          cancellable(config, (signal) =>
+            settle(
+              responder,
+              { method, uri, ...options, pathParams, config, passthrough },
+              resolveLatency(responder.latency ?? this.latency),
+              signal
+            )
+          )
+        )
+      );
     };
   }
+
+  protected get requests(): Request[] {
+    return Object.values(this.registry).flat();
+  }
+
+  protected deregister(requests: Request[]): void {
+    for (const request of requests) {
+      this.registry[request.method] = this.registry[request.method].filter(
+        (r) => r !== request
+      );
+    }
+  }
+
+  // Requests are configured after they are registered, so duplicates are only
+  // replaced once the configuration is complete. The latest duplicate takes
+  // the place of the earliest on the same layer, leaving those registered by
+  // other profiles or scopes in place for when they are removed.
+  protected replaceDuplicates(): void {
+    if (this.duplicates !== 'replace') {
+      return;
+    }
+
+    for (const method of METHODS) {
+      const latest = [...this.registry[method]].reverse();
+
+      this.registry[method] = this.registry[method]
+        .map(
+          (request) =>
+            latest.find(
+              (later) =>
+                later.layer === request.layer && later.isDuplicateOf(request)
+            ) ?? request
+        )
+        .filter(
+          (request, index, requests) => requests.indexOf(request) === index
+        );
+    }
+  }
+
+  // Build a stand-in for a request that did not match, responding according to
+  // the configured policy
+  protected unmatched(method: Method, error: RequestNotFoundError): Request {
+    const policy = this.onUnmatched;
+    const fallback = new Request(method);
+
+    if (typeof policy === 'function') {
+      return fallback.respondWith(async (incoming) => {
+        const response = await policy(incoming);
+
+        if (!response) {
+          throw error;
+        }
+
+        return response;
+      });
+    }
+
+    if (policy === 'warn') {
+      console.warn(error.message);
+    }
+
+    return fallback.respondWith(httpStatus.NOT_FOUND);
+  }
+
+  // Forward the request to the fallback adapter, leaving status validation to
+  // the mock so that the response is handled like any other reply
+  protected async passthrough(
+    config: InternalAxiosRequestConfig
+  ): Promise<Response> {
+    return responseOf(
+      await this.fallbackAdapter({ ...config, validateStatus: null })
+    );
+  }
+
+  // Check the response against any OpenAPI documents that validate responses,
+  // including responses that are rejected because of their status
+  protected async conform(
+    method: Method,
+    uri: string,
+    pending: AxiosPromise
+  ): AxiosPromise {
+    const check = (response: AxiosResponse) => {
+      const violations = this.contracts.flatMap((contract) =>
+        contract.validateResponse(method, uri, responseOf(response))
+      );
+
+      if (violations.length > 0) {
+        throw new ContractViolationError(
+          `Response ${response.status} to ${method.toUpperCase()} ${uri}`,
+          violations
+        );
+      }
+    };
+
+    try {
+      const response = await pending;
+      check(response);
+
+      return response;
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        check(error.response);
+      }
+
+      throw error;
+    }
+  }
+
+  // Keep the response, or whether the request was cancelled, in the history
+  protected async capture(
+    call: RecordedCall,
+    pending: AxiosPromise
+  ): AxiosPromise {
+    try {
+      const response = await pending;
+      call.response = responseOf(response);
+
+      return response;
+    } catch (error) {
+      call.cancelled = isCancel(error);
+
+      if (isAxiosError(error) && error.response) {
+        call.response = responseOf(error.response);
+      }
+
+      throw error;
+    }
+  }
+
+  protected record(
+    call: Omit<RecordedCall, 'timestamp' | 'cancelled' | 'response'>
+  ): RecordedCall {
+    const recordedCall = { ...call, timestamp: new Date(), cancelled: false };
+
+    this.recorded.push(recordedCall);
+    this._history[call.method].push(recordedCall);
+
+    return recordedCall;
+  }
 }
 
-export { RequestNotFoundError, InvalidRequestsError, HttpMock };
+export {
+  ContractViolationError,
+  UnknownProfileError,
+  RequestNotFoundError,
+  InvalidRequestsError,
+  ResponsesExhaustedError,
+  UnmatchedRequestsError,
+  UnsatisfiedRequestsError,
+  HttpMock,
+};
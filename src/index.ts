@@ -1,4 +1,6 @@
 import { HttpMock } from './http-mock';
+import { match, Matcher } from './match';
+import { Recorder } from './recorder';
 import httpStatus from 'http-status';
 
-export { HttpMock, httpStatus as HttpStatus };
+export { HttpMock, match, Matcher, Recorder, httpStatus as HttpStatus };
@@ -0,0 +1,117 @@
+import { deepEqual, deepMatch, match } from './match';
+
+describe('match', () => {
+  describe('any()', () => {
+    it('matches any present value', () => {
+      expect(match.any().matches('value')).toBe(true);
+      expect(match.any().matches(0)).toBe(true);
+      expect(match.any().matches(undefined)).toBe(false);
+      expect(match.any().matches(null)).toBe(false);
+    });
+  });
+
+  describe('string()', () => {
+    it('matches any string when no pattern is given', () => {
+      expect(match.string().matches('value')).toBe(true);
+      expect(match.string().matches(1)).toBe(false);
+    });
+
+    it('matches strings against a regular expression', () => {
+      const matcher = match.string(/^[0-9a-f-]{36}$/);
+
+      expect(matcher.matches('0f8fad5b-d9cb-469f-a165-70867728950e')).toBe(
+        true
+      );
+      expect(matcher.matches('value')).toBe(false);
+    });
+
+    it('matches strings containing a substring', () => {
+      expect(match.string('Bearer').matches('Bearer token')).toBe(true);
+      expect(match.string('Bearer').matches('Basic token')).toBe(false);
+    });
+  });
+
+  describe('objectContaining()', () => {
+    it('matches objects that contain the expected attributes', () => {
+      const matcher = match.objectContaining({ key: 'value' });
+
+      expect(matcher.matches({ key: 'value', other: 'value' })).toBe(true);
+      expect(matcher.matches({ other: 'value' })).toBe(false);
+      expect(matcher.matches('value')).toBe(false);
+    });
+  });
+
+  describe('arrayContaining()', () => {
+    it('matches arrays that contain the expected elements', () => {
+      const matcher = match.arrayContaining([1, { key: 'value' }]);
+
+      expect(matcher.matches([{ key: 'value' }, 2, 1])).toBe(true);
+      expect(matcher.matches([1, 2])).toBe(false);
+    });
+  });
+
+  describe('where()', () => {
+    it('matches values that satisfy the predicate', () => {
+      const matcher = match.where((v) => Number(v) > 10, 'greater than 10');
+
+      expect(matcher.matches(11)).toBe(true);
+      expect(matcher.matches(10)).toBe(false);
+      expect(JSON.stringify(matcher)).toEqual('"where(greater than 10)"');
+    });
+  });
+});
+
+describe(deepMatch.name, () => {
+  it('compares values using loose deep equality', () => {
+    expect(deepMatch({ key: 'value' }, { key: 'value' })).toBe(true);
+    expect(deepMatch({ page: 2 }, { page: '2' })).toBe(true);
+    expect(deepMatch({ key: 'value' }, { key: 'other' })).toBe(false);
+    expect(deepMatch({ key: 'value' }, { key: 'value', other: 'x' })).toBe(
+      false
+    );
+    expect(deepMatch(Buffer.from('a'), Buffer.from('a'))).toBe(true);
+  });
+
+  it('delegates to nested matchers', () => {
+    const expected = {
+      id: match.string(/^\d+$/),
+      tags: match.arrayContaining(['one']),
+      meta: match.objectContaining({ version: 1 }),
+    };
+
+    expect(
+      deepMatch(expected, {
+        id: '42',
+        tags: ['two', 'one'],
+        meta: { version: 1, createdAt: '2020-01-01' },
+      })
+    ).toBe(true);
+
+    expect(
+      deepMatch(expected, { id: 'x', tags: ['one'], meta: { version: 1 } })
+    ).toBe(false);
+  });
+});
+
+describe(deepEqual.name, () => {
+  it('compares values structurally', () => {
+    expect(deepEqual({ key: ['value'] }, { key: ['value'] })).toBe(true);
+    expect(
+      deepEqual({ key: 'value', other: undefined }, { key: 'value' })
+    ).toBe(true);
+    expect(deepEqual({ page: 2 }, { page: '2' })).toBe(false);
+    expect(deepEqual(/a/, /a/)).toBe(true);
+    expect(deepEqual('/a/', /a/)).toBe(false);
+    expect(deepEqual(Buffer.from('a'), Buffer.from('a'))).toBe(true);
+  });
+
+  it('compares matchers and functions by identity', () => {
+    const matcher = match.any();
+    const fn = () => true;
+
+    expect(deepEqual({ id: matcher }, { id: matcher })).toBe(true);
+    expect(deepEqual({ id: match.any() }, { id: match.any() })).toBe(false);
+    expect(deepEqual(fn, fn)).toBe(true);
+    expect(deepEqual(fn, () => true)).toBe(false);
+  });
+});
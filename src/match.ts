@@ -0,0 +1,137 @@
+import assert from 'assert';
+
+type Predicate = (actual: unknown) => boolean;
+
+class Matcher {
+  constructor(readonly description: string, protected predicate: Predicate) {}
+
+  matches(actual: unknown): boolean {
+    return this.predicate(actual);
+  }
+
+  toJSON(): string {
+    return this.description;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Object.prototype.toString.call(value) === '[object Object]' &&
+  !(value instanceof Matcher);
+
+// Compare an expected value against an actual value, delegating to any
+// matchers found in the expected value. Anything else falls back to the same
+// loose comparison as `assert.deepEqual()`.
+const deepMatch = (expected: unknown, actual: unknown): boolean => {
+  if (expected instanceof Matcher) {
+    return expected.matches(actual);
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return (
+      expected.length === actual.length &&
+      expected.every((value, index) => deepMatch(value, actual[index]))
+    );
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = Object.keys(expected);
+
+    return (
+      keys.length === Object.keys(actual).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(actual, key) &&
+          deepMatch(expected[key], actual[key])
+      )
+    );
+  }
+
+  try {
+    assert.deepEqual(expected, actual);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Compare two expected values, such as the options configured on two requests.
+// Unlike `deepMatch()`, matchers and functions are only equal to themselves.
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.toString() === b.toString();
+  }
+
+  if (Buffer.isBuffer(a) && Buffer.isBuffer(b)) {
+    return a.equals(b);
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((value, index) => deepEqual(value, b[index]))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+
+    return (
+      keys.length ===
+        Object.keys(b).filter((key) => b[key] !== undefined).length &&
+      keys.every((key) => deepEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+};
+
+const inspect = (value: unknown): string => {
+  if (value instanceof RegExp || typeof value === 'function') {
+    return value.toString();
+  }
+
+  return JSON.stringify(value);
+};
+
+const match = {
+  any: (): Matcher =>
+    new Matcher('any()', (actual) => actual !== undefined && actual !== null),
+
+  string: (pattern?: RegExp | string): Matcher =>
+    new Matcher(
+      `string(${pattern ? inspect(pattern) : ''})`,
+      (actual) =>
+        typeof actual === 'string' &&
+        (pattern === undefined ||
+          (pattern instanceof RegExp
+            ? pattern.test(actual)
+            : actual.includes(pattern)))
+    ),
+
+  objectContaining: (expected: Record<string, unknown>): Matcher =>
+    new Matcher(
+      `objectContaining(${inspect(expected)})`,
+      (actual) =>
+        isPlainObject(actual) &&
+        Object.entries(expected).every(([key, value]) =>
+          deepMatch(value, actual[key])
+        )
+    ),
+
+  arrayContaining: (expected: unknown[]): Matcher =>
+    new Matcher(
+      `arrayContaining(${inspect(expected)})`,
+      (actual) =>
+        Array.isArray(actual) &&
+        expected.every((value) => actual.some((a) => deepMatch(value, a)))
+    ),
+
+  where: (predicate: Predicate, description?: string): Matcher =>
+    new Matcher(`where(${description ?? inspect(predicate)})`, predicate),
+};
+
+export { Matcher, match, deepMatch, deepEqual };
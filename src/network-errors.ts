@@ -0,0 +1,57 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+type ErrorFactory = (config: InternalAxiosRequestConfig) => AxiosError;
+
+const hostOf = (config: InternalAxiosRequestConfig): string => {
+  try {
+    return new URL(config.url ?? '', config.baseURL).host;
+  } catch {
+    return 'localhost';
+  }
+};
+
+// Mirrors the error raised by the Axios HTTP adapter when `config.timeout` is
+// exceeded
+const timeoutError: ErrorFactory = (config) =>
+  new AxiosError(
+    config.timeout
+      ? `timeout of ${config.timeout}ms exceeded`
+      : 'timeout exceeded',
+    config.transitional?.clarifyTimeoutError
+      ? AxiosError.ETIMEDOUT
+      : AxiosError.ECONNABORTED,
+    config
+  );
+
+const networkError: ErrorFactory = (config) =>
+  new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+
+const connectionRefusedError: ErrorFactory = (config) =>
+  new AxiosError(
+    `connect ECONNREFUSED ${hostOf(config)}`,
+    'ECONNREFUSED',
+    config
+  );
+
+const connectionResetError: ErrorFactory = (config) =>
+  new AxiosError('socket hang up', 'ECONNRESET', config);
+
+const dnsFailureError: ErrorFactory = (config) =>
+  new AxiosError(
+    `getaddrinfo ENOTFOUND ${hostOf(config).replace(/:\d+$/, '')}`,
+    'ENOTFOUND',
+    config
+  );
+
+const abortError: ErrorFactory = (config) =>
+  new AxiosError('Request aborted', AxiosError.ECONNABORTED, config);
+
+export {
+  ErrorFactory,
+  timeoutError,
+  networkError,
+  connectionRefusedError,
+  connectionResetError,
+  dnsFailureError,
+  abortError,
+};
@@ -0,0 +1,326 @@
+import { OpenApiContract, OpenApiDocument } from './openapi';
+
+const document: OpenApiDocument = {
+  openapi: '3.0.3',
+  servers: [
+    {
+      url: 'https://{host}/v1',
+      variables: { host: { default: 'api.example' } },
+    },
+  ],
+  paths: {
+    '/users': {
+      get: {
+        parameters: [
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', maximum: 50 },
+          },
+          {
+            name: 'X-Tenant',
+            in: 'header',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          '200': {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/User' },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/NewUser' },
+            },
+          },
+        },
+        responses: {
+          '201': {
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+                examples: { created: { value: { id: 7, name: 'created' } } },
+              },
+            },
+          },
+          '422': { $ref: '#/components/responses/Invalid' },
+        },
+      },
+    },
+    '/users/{id}': {
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+      ],
+      get: {
+        responses: {
+          '200': {
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+                example: { id: 1, name: 'example' },
+              },
+            },
+          },
+        },
+      },
+      delete: { responses: { '204': {} } },
+    },
+  },
+  components: {
+    schemas: {
+      NewUser: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' } },
+      },
+      User: {
+        allOf: [
+          { $ref: '#/components/schemas/NewUser' },
+          {
+            type: 'object',
+            required: ['id'],
+            properties: { id: { type: 'integer' } },
+          },
+        ],
+      },
+    },
+    responses: {
+      Invalid: {
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { error: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe(OpenApiContract.name, () => {
+  const url = 'https://api.example/v1/users';
+
+  describe('stubs()', () => {
+    it('builds an example response for each operation', () => {
+      const contract = new OpenApiContract(document);
+
+      expect(contract.stubs()).toEqual([
+        {
+          method: 'get',
+          uri: url,
+          response: [
+            200,
+            [{ name: 'string', id: 0 }],
+            { 'Content-Type': 'application/json' },
+          ],
+        },
+        {
+          method: 'post',
+          uri: url,
+          response: [
+            201,
+            { id: 7, name: 'created' },
+            { 'Content-Type': 'application/json' },
+          ],
+        },
+        {
+          method: 'get',
+          uri: `${url}/:id`,
+          response: [
+            200,
+            { id: 1, name: 'example' },
+            { 'Content-Type': 'application/json' },
+          ],
+        },
+        { method: 'delete', uri: `${url}/:id`, response: [204] },
+      ]);
+    });
+
+    it('uses the configured base URL', () => {
+      const contract = new OpenApiContract(document, {
+        baseURL: 'http://localhost:3000/',
+      });
+
+      expect(contract.stubs()[0].uri).toEqual('http://localhost:3000/users');
+    });
+
+    it('builds responses for recursive schemas', () => {
+      const contract = new OpenApiContract({
+        openapi: '3.0.3',
+        paths: {
+          '/nodes': {
+            get: {
+              responses: {
+                '200': {
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Node' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Node: {
+              type: 'object',
+              properties: {
+                children: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Node' },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(contract.stubs()[0].response).toEqual([
+        200,
+        { children: [] },
+        { 'Content-Type': 'application/json' },
+      ]);
+    });
+  });
+
+  describe('validateRequest()', () => {
+    const contract = new OpenApiContract(document);
+
+    it('accepts a conforming request', () => {
+      expect(
+        contract.validateRequest({
+          method: 'get',
+          uri: url,
+          params: { limit: '10' },
+          headers: { 'x-tenant': 'tenant' },
+        })
+      ).toEqual([]);
+    });
+
+    it('validates parameters', () => {
+      expect(
+        contract.validateRequest({
+          method: 'get',
+          uri: url,
+          params: { limit: 100 },
+        })
+      ).toEqual([
+        'query.limit must be at most 50',
+        'header.X-Tenant is required',
+      ]);
+
+      expect(
+        contract.validateRequest({ method: 'get', uri: `${url}/abc` })
+      ).toEqual(['path.id must be integer']);
+    });
+
+    it('validates the request body', () => {
+      expect(contract.validateRequest({ method: 'post', uri: url })).toEqual([
+        'body is required',
+      ]);
+      expect(
+        contract.validateRequest({
+          method: 'post',
+          uri: url,
+          body: { name: 1 },
+        })
+      ).toEqual(['body.name must be string']);
+    });
+
+    it('reports operations that are not described', () => {
+      expect(contract.validateRequest({ method: 'put', uri: url })).toEqual([
+        'PUT is not described for this path',
+      ]);
+      expect(
+        contract.validateRequest({
+          method: 'get',
+          uri: 'https://api.example/v1/teams',
+        })
+      ).toEqual(['path is not described']);
+      expect(
+        contract.validateRequest({
+          method: 'get',
+          uri: 'https://other.example/teams',
+        })
+      ).toEqual([]);
+    });
+
+    it('can be disabled', () => {
+      const disabled = new OpenApiContract(document, {
+        validateRequests: false,
+      });
+      expect(disabled.validateRequest({ method: 'post', uri: url })).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('validateResponse()', () => {
+    const contract = new OpenApiContract(document, { validateResponses: true });
+
+    const response = (status: number, data?: unknown) => ({
+      status,
+      statusText: '',
+      headers: { 'Content-Type': 'application/json' },
+      data,
+    });
+
+    it('accepts a conforming response', () => {
+      expect(
+        contract.validateResponse(
+          'get',
+          `${url}/1`,
+          response(200, { id: 1, name: 'user' })
+        )
+      ).toEqual([]);
+    });
+
+    it('validates the response body', () => {
+      expect(
+        contract.validateResponse('get', `${url}/1`, response(200, { id: '1' }))
+      ).toEqual(['body.name is required', 'body.id must be integer']);
+      expect(
+        contract.validateResponse(
+          'get',
+          `${url}/1`,
+          response(200, '{"name":1,"id":1}')
+        )
+      ).toEqual(['body.name must be string']);
+      expect(
+        contract.validateResponse('post', url, response(422, { error: false }))
+      ).toEqual(['body.error must be string']);
+    });
+
+    it('reports statuses that are not described', () => {
+      expect(
+        contract.validateResponse('delete', `${url}/1`, response(200))
+      ).toEqual(['status 200 is not described']);
+    });
+
+    it('is disabled by default', () => {
+      expect(
+        new OpenApiContract(document).validateResponse(
+          'delete',
+          `${url}/1`,
+          response(200)
+        )
+      ).toEqual([]);
+    });
+  });
+});
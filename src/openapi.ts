@@ -0,0 +1,360 @@
+import { readFileSync } from 'fs';
+
+import { decodeBody } from './body';
+import { Response, ResponseTuple } from './request';
+import { formatErrors, generate, resolve, Schema, validate } from './schema';
+import { Headers, Method, METHODS, Params } from './types';
+import { UriPattern } from './uri-pattern';
+import { normalizeHeaders } from './util';
+
+// The parts of an OpenAPI 3 document used to register and validate requests
+type Reference = { $ref?: string };
+
+type Parameter = Reference & {
+  name: string;
+  in: 'query' | 'header' | 'path' | 'cookie';
+  required?: boolean;
+  schema?: Schema;
+};
+
+type MediaType = {
+  schema?: Schema;
+  example?: unknown;
+  examples?: Record<string, Reference & { value?: unknown }>;
+};
+
+type Content = Record<string, MediaType>;
+
+type Operation = {
+  operationId?: string;
+  parameters?: Parameter[];
+  requestBody?: Reference & { required?: boolean; content?: Content };
+  responses?: Record<string, Reference & { content?: Content }>;
+};
+
+type PathItem = { parameters?: Parameter[] } & Partial<
+  Record<Method, Operation>
+>;
+
+type OpenApiDocument = {
+  openapi: string;
+  servers?: { url: string; variables?: Record<string, { default: string }> }[];
+  paths: Record<string, PathItem>;
+  components?: Record<string, unknown>;
+};
+
+type OpenApiOptions = {
+  baseURL?: string;
+  stubs?: boolean;
+  validateRequests?: boolean;
+  validateResponses?: boolean;
+};
+
+type ContractRequest = {
+  method: Method;
+  uri: string;
+  params?: Params;
+  headers?: Headers;
+  body?: unknown;
+};
+
+type ContractOperation = {
+  method: Method;
+  uri: string;
+  pattern: UriPattern;
+  operation: Operation;
+  parameters: Parameter[];
+};
+
+const readOpenApi = (path: string): OpenApiDocument =>
+  JSON.parse(readFileSync(path, 'utf8'));
+
+const serverUrl = ({ servers }: OpenApiDocument): string => {
+  const [server] = servers ?? [];
+
+  if (!server) {
+    return '';
+  }
+
+  return server.url.replace(
+    /{([^}]+)}/g,
+    (_, name) => server.variables?.[name]?.default ?? ''
+  );
+};
+
+// OpenAPI templates (`/users/{id}`) become Express-style templates, with names
+// that can't be captured falling back to a wildcard
+const toTemplate = (path: string): string =>
+  path.replace(/{([^}]+)}/g, (_, name) =>
+    /^[A-Za-z_]\w*$/.test(name) ? `:${name}` : '*'
+  );
+
+const mediaTypeFor = (
+  content: Content | undefined,
+  contentType?: string
+): MediaType | undefined => {
+  if (!content) {
+    return undefined;
+  }
+
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+
+  const key =
+    Object.keys(content).find((k) => k.toLowerCase() === type) ??
+    Object.keys(content).find((k) => /[/+]json/i.test(k)) ??
+    Object.keys(content)[0];
+
+  return key ? content[key] : undefined;
+};
+
+// Values from the query, path, and headers arrive as strings, so convert them
+// to the type the schema expects before validating
+const coerce = (value: unknown, schema: Schema): unknown => {
+  const types = ([] as string[]).concat(schema.type ?? []);
+
+  if (types.includes('array')) {
+    const items = schema.items ?? {};
+    return ([] as unknown[]).concat(value).map((item) => coerce(item, items));
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if (
+    (types.includes('integer') || types.includes('number')) &&
+    value.trim() !== '' &&
+    !isNaN(Number(value))
+  ) {
+    return Number(value);
+  }
+
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+
+  return value;
+};
+
+class OpenApiContract {
+  protected operations: ContractOperation[];
+
+  readonly baseURL: string;
+
+  constructor(
+    readonly document: OpenApiDocument,
+    protected options: OpenApiOptions = {}
+  ) {
+    this.baseURL = (options.baseURL ?? serverUrl(document)).replace(/\/$/, '');
+
+    this.operations = Object.entries(document.paths).flatMap(([path, item]) =>
+      METHODS.filter((method) => item[method]).map((method) => {
+        const operation = item[method]!;
+        const uri = `${this.baseURL}${toTemplate(path)}`;
+
+        return {
+          method,
+          uri,
+          pattern: new UriPattern(uri),
+          operation,
+          parameters: this.parametersOf(item, operation),
+        };
+      })
+    );
+  }
+
+  // An example response for each operation, taken from the first successful
+  // response described by the document
+  stubs(): { method: Method; uri: string; response: ResponseTuple }[] {
+    return this.operations.map(({ method, uri, operation }) => ({
+      method,
+      uri,
+      response: this.exampleResponse(operation),
+    }));
+  }
+
+  validateRequest(request: ContractRequest): string[] {
+    if (this.options.validateRequests === false) {
+      return [];
+    }
+
+    const match = this.operationFor(request.method, request.uri);
+
+    if (!match) {
+      if (this.isDescribed(request.uri)) {
+        return [
+          `${request.method.toUpperCase()} is not described for this path`,
+        ];
+      }
+
+      return this.baseURL && request.uri.startsWith(`${this.baseURL}/`)
+        ? ['path is not described']
+        : [];
+    }
+
+    const { operation, parameters, pattern } = match;
+
+    const values = {
+      path: pattern.match(request.uri) ?? {},
+      query: request.params ?? {},
+      header: normalizeHeaders(request.headers) ?? {},
+      cookie: {},
+    };
+
+    const errors = parameters.flatMap(
+      ({ name, in: location, ...parameter }) => {
+        const key = location === 'header' ? name.toLowerCase() : name;
+        const value = (values[location] as Record<string, unknown>)[key];
+        const path = `${location}.${name}`;
+
+        if (value === undefined) {
+          return parameter.required ? [`${path} is required`] : [];
+        }
+
+        if (!parameter.schema) {
+          return [];
+        }
+
+        const schema = resolve(parameter.schema, this.document);
+        return formatErrors(
+          validate(schema, coerce(value, schema), path, this.document)
+        );
+      }
+    );
+
+    const requestBody =
+      operation.requestBody && resolve(operation.requestBody, this.document);
+
+    if (requestBody) {
+      if (request.body === undefined) {
+        if (requestBody.required) {
+          errors.push('body is required');
+        }
+      } else {
+        const contentType = Object.entries(request.headers ?? {}).find(
+          ([name]) => name.toLowerCase() === 'content-type'
+        )?.[1];
+        const schema = mediaTypeFor(requestBody.content, contentType)?.schema;
+
+        if (schema) {
+          errors.push(
+            ...formatErrors(
+              validate(schema, request.body, 'body', this.document)
+            )
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  validateResponse(method: Method, uri: string, response: Response): string[] {
+    if (!this.options.validateResponses) {
+      return [];
+    }
+
+    const match = this.operationFor(method, uri);
+
+    if (!match) {
+      return [];
+    }
+
+    const { status, data, headers } = response;
+    const { responses = {} } = match.operation;
+
+    const described =
+      responses[status] ??
+      responses[`${Math.floor(status / 100)}XX`] ??
+      responses.default;
+
+    if (!described) {
+      return [`status ${status} is not described`];
+    }
+
+    const { content } = resolve(described, this.document);
+    const contentType = normalizeHeaders(headers)?.['content-type'];
+    const schema = mediaTypeFor(content, contentType)?.schema;
+
+    if (!schema || Buffer.isBuffer(data)) {
+      return [];
+    }
+
+    const body =
+      typeof data === 'string'
+        ? decodeBody(data, {
+            'content-type': contentType ?? 'application/json',
+          })
+        : data;
+
+    return formatErrors(validate(schema, body, 'body', this.document));
+  }
+
+  protected operationFor(
+    method: Method,
+    uri: string
+  ): ContractOperation | undefined {
+    return this.operations
+      .filter((operation) => operation.pattern.match(uri))
+      .sort((a, b) => b.pattern.specificity - a.pattern.specificity)
+      .find((operation) => operation.method === method);
+  }
+
+  protected isDescribed(uri: string): boolean {
+    return this.operations.some(({ pattern }) => pattern.match(uri));
+  }
+
+  // Operation parameters override those shared by every operation on a path
+  protected parametersOf(item: PathItem, operation: Operation): Parameter[] {
+    const parameters = [
+      ...(item.parameters ?? []),
+      ...(operation.parameters ?? []),
+    ].map((parameter) => resolve(parameter, this.document));
+
+    return parameters.filter(
+      (parameter, index) =>
+        !parameters
+          .slice(index + 1)
+          .some((p) => p.name === parameter.name && p.in === parameter.in)
+    );
+  }
+
+  protected exampleResponse(operation: Operation): ResponseTuple {
+    const { responses = {} } = operation;
+
+    const key =
+      Object.keys(responses)
+        .filter((status) => /^2\d\d$/.test(status))
+        .sort()[0] ?? ('default' in responses ? 'default' : undefined);
+
+    if (!key) {
+      return [200];
+    }
+
+    const status = key === 'default' ? 200 : Number(key);
+    const { content } = resolve(responses[key], this.document);
+
+    if (!content || Object.keys(content).length === 0) {
+      return [status];
+    }
+
+    const contentType =
+      Object.keys(content).find((k) => /[/+]json/i.test(k)) ??
+      Object.keys(content)[0];
+    const { example, examples, schema } = content[contentType];
+
+    const [named] = Object.values(examples ?? {}).map(
+      (value) => resolve(value, this.document).value
+    );
+
+    let data = example ?? named;
+
+    if (data === undefined && schema) {
+      data = generate(schema, this.document);
+    }
+
+    return [status, data, { 'Content-Type': contentType }];
+  }
+}
+
+export { OpenApiContract, OpenApiDocument, OpenApiOptions, readOpenApi };
@@ -0,0 +1,216 @@
+import Axios, { AxiosAdapter, AxiosError } from 'axios';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { RequestNotFoundError } from './errors';
+import { Recorder } from './recorder';
+import { Cassette } from './types';
+
+describe(Recorder.name, () => {
+  const url = 'https://host.example/users';
+
+  let directory: string;
+  let path: string;
+  let adapter: jest.MockedFunction<AxiosAdapter>;
+
+  const respond = (status: number, data: unknown) =>
+    adapter.mockImplementation(async (config) => {
+      const response = {
+        status,
+        statusText: status === 200 ? 'OK' : 'Not Found',
+        headers: {
+          'content-type': 'application/json',
+          'set-cookie': ['session=secret'],
+        },
+        data: JSON.stringify(data),
+        config,
+      };
+
+      if (status >= 400) {
+        throw new AxiosError(
+          'Failed',
+          'ERR_BAD_REQUEST',
+          config,
+          null,
+          response
+        );
+      }
+
+      return response;
+    });
+
+  const record = async (
+    requests: (client: ReturnType<typeof Axios.create>) => Promise<unknown>,
+    recorder = new Recorder(path, { adapter })
+  ) => {
+    await requests(Axios.create({ adapter: recorder.adapter }));
+    recorder.save();
+
+    return recorder;
+  };
+
+  const cassette = (): Cassette => JSON.parse(readFileSync(path, 'utf8'));
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cassettes-'));
+    path = join(directory, 'nested', 'users.json');
+    adapter = jest.fn();
+    respond(200, [{ id: 1 }]);
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('records requests to a cassette file', async () => {
+    await record((client) =>
+      client.get(url, { params: { page: 1 }, headers: { Accept: 'json' } })
+    );
+
+    expect(cassette()).toEqual({
+      version: 1,
+      interactions: [
+        {
+          request: {
+            method: 'get',
+            uri: url,
+            params: { page: 1 },
+            headers: expect.objectContaining({ Accept: 'json' }),
+          },
+          response: {
+            status: 200,
+            statusText: 'OK',
+            headers: { 'content-type': 'application/json' },
+            data: [{ id: 1 }],
+          },
+          recordedAt: expect.any(String),
+        },
+      ],
+    });
+  });
+
+  it('records error responses and rethrows the error', async () => {
+    respond(404, { error: 'Not Found' });
+
+    const recorder = new Recorder(path, { adapter });
+    const client = Axios.create({ adapter: recorder.adapter });
+
+    await expect(client.get(url)).rejects.toThrow('Failed');
+    expect(recorder.interactions[0].response).toMatchObject({
+      status: 404,
+      data: { error: 'Not Found' },
+    });
+  });
+
+  it('does not write a cassette when nothing was recorded', async () => {
+    new Recorder(path, { adapter }).save();
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('scrubs sensitive headers', async () => {
+    await record((client) =>
+      client.get(url, {
+        headers: { Authorization: 'Bearer token', 'X-Api-Key': 'key' },
+      })
+    );
+
+    const [{ request, response }] = cassette().interactions;
+
+    expect(request.headers).not.toHaveProperty('Authorization');
+    expect(request.headers).toHaveProperty('X-Api-Key');
+    expect(response.headers).not.toHaveProperty('set-cookie');
+  });
+
+  it('scrubs the configured headers', async () => {
+    const recorder = new Recorder(path, {
+      adapter,
+      scrubHeaders: ['x-api-key'],
+    });
+
+    await record(
+      (client) => client.get(url, { headers: { 'X-Api-Key': 'key' } }),
+      recorder
+    );
+
+    const [{ request, response }] = cassette().interactions;
+
+    expect(request.headers).not.toHaveProperty('X-Api-Key');
+    expect(response.headers).toHaveProperty('set-cookie');
+  });
+
+  it('applies the before record hook', async () => {
+    const recorder = new Recorder(path, {
+      adapter,
+      beforeRecord: (interaction) => ({
+        ...interaction,
+        response: { ...interaction.response, data: 'redacted' },
+      }),
+    });
+
+    await record((client) => client.get(url), recorder);
+
+    expect(cassette().interactions[0].response.data).toEqual('redacted');
+  });
+
+  describe('record modes', () => {
+    beforeEach(() =>
+      record(async (client) => {
+        await client.get(url);
+        await client.post(url, { name: 'user' });
+      })
+    );
+
+    beforeEach(() => adapter.mockClear());
+
+    it('replays an existing cassette once recorded', async () => {
+      const recorder = new Recorder(path, { adapter });
+      const client = Axios.create({ adapter: recorder.adapter });
+
+      await expect(client.get(url)).resolves.toMatchObject({
+        status: 200,
+        data: [{ id: 1 }],
+      });
+      await expect(client.post(url, { name: 'user' })).resolves.toMatchObject({
+        status: 200,
+      });
+      await expect(client.delete(url)).rejects.toThrow(RequestNotFoundError);
+
+      expect(adapter).not.toHaveBeenCalled();
+    });
+
+    it('records new requests while replaying existing ones', async () => {
+      const recorder = new Recorder(path, { adapter, mode: 'new_episodes' });
+
+      await record(async (client) => {
+        await client.get(url);
+        await client.delete(url);
+      }, recorder);
+
+      expect(adapter).toHaveBeenCalledTimes(1);
+      expect(
+        cassette().interactions.map(({ request }) => request.method)
+      ).toEqual(['get', 'post', 'delete']);
+    });
+
+    it('never records when the mode is none', async () => {
+      const recorder = new Recorder(join(directory, 'missing.json'), {
+        adapter,
+        mode: 'none',
+      });
+      const client = Axios.create({ adapter: recorder.adapter });
+
+      await expect(client.get(url)).rejects.toThrow(RequestNotFoundError);
+      expect(adapter).not.toHaveBeenCalled();
+    });
+
+    it('records every request when the mode is all', async () => {
+      respond(200, [{ id: 2 }]);
+
+      const recorder = new Recorder(path, { adapter, mode: 'all' });
+      await record((client) => client.get(url), recorder);
+
+      expect(adapter).toHaveBeenCalledTimes(1);
+      expect(cassette().interactions).toHaveLength(1);
+      expect(cassette().interactions[0].response.data).toEqual([{ id: 2 }]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import Axios, {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+  isAxiosError,
+} from 'axios';
+import { existsSync } from 'fs';
+
+import {
+  emptyCassette,
+  readCassette,
+  scrubHeaders,
+  serializeResponse,
+  writeCassette,
+} from './cassette';
+import { HttpMock } from './http-mock';
+import {
+  Cassette,
+  HeaderMatchMode,
+  Interaction,
+  MatchMode,
+  RecordMode,
+} from './types';
+import { describeRequest } from './util';
+
+type RecorderOptions = {
+  mode?: RecordMode;
+  adapter?: AxiosAdapter;
+  matching?: MatchMode;
+  headerMatching?: HeaderMatchMode;
+  scrubHeaders?: string[];
+  beforeRecord?: (interaction: Interaction) => Interaction;
+};
+
+const SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+];
+
+class Recorder {
+  protected mode: RecordMode;
+  protected realAdapter: AxiosAdapter;
+  protected sensitiveHeaders: string[];
+  protected beforeRecord?: RecorderOptions['beforeRecord'];
+
+  protected cassette: Cassette;
+  protected changed = false;
+  protected mock: HttpMock;
+
+  constructor(readonly path: string, options?: RecorderOptions) {
+    const exists = existsSync(path);
+
+    this.mode = options?.mode ?? 'once';
+    this.realAdapter =
+      options?.adapter ?? Axios.getAdapter(Axios.defaults.adapter);
+    this.sensitiveHeaders = (options?.scrubHeaders ?? SENSITIVE_HEADERS).map(
+      (name) => name.toLowerCase()
+    );
+    this.beforeRecord = options?.beforeRecord;
+
+    this.cassette =
+      exists && this.mode !== 'all' ? readCassette(path) : emptyCassette();
+
+    const recording =
+      this.mode === 'all' ||
+      this.mode === 'new_episodes' ||
+      (this.mode === 'once' && !exists);
+
+    // Scrubbed headers are missing from recorded requests, so by default only
+    // the recorded headers need to be present when replaying
+    this.mock = new HttpMock({
+      matching: options?.matching ?? 'strict',
+      headerMatching: options?.headerMatching ?? 'subset',
+      onUnmatched: recording ? 'passthrough' : 'throw',
+      fallbackAdapter: (config) => this.record(config),
+    });
+
+    this.mock.load(this.cassette);
+  }
+
+  get adapter(): AxiosAdapter {
+    return this.mock.adapter;
+  }
+
+  get interactions(): Interaction[] {
+    return [...this.cassette.interactions];
+  }
+
+  save(): void {
+    if (this.changed) {
+      writeCassette(this.path, this.cassette);
+      this.changed = false;
+    }
+  }
+
+  protected async record(
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const request = describeRequest(config);
+
+    try {
+      const response = await this.realAdapter(config);
+      this.append(request, response);
+
+      return response;
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        this.append(request, error.response);
+      }
+
+      throw error;
+    }
+  }
+
+  protected append(
+    request: Interaction['request'],
+    response: AxiosResponse
+  ): void {
+    const serialized = serializeResponse(response);
+
+    let interaction: Interaction = {
+      request: {
+        ...request,
+        headers: scrubHeaders(request.headers, this.sensitiveHeaders),
+      },
+      response: {
+        ...serialized,
+        headers: scrubHeaders(serialized.headers, this.sensitiveHeaders)!,
+      },
+      recordedAt: new Date().toISOString(),
+    };
+
+    if (this.beforeRecord) {
+      interaction = this.beforeRecord(interaction);
+    }
+
+    this.cassette.interactions.push(interaction);
+    this.changed = true;
+  }
+}
+
+export { Recorder, RecorderOptions };
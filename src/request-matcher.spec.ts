@@ -1,3 +1,4 @@
+import { match } from './match';
 import { Request } from './request';
 import { RequestMatcher } from './request-matcher';
 import { MatchMode } from './types';
@@ -101,6 +102,42 @@ describe(RequestMatcher.name, () => {
         ).toEqual(full);
       });
 
+      it('prefers a literal URI over a template', () => {
+        const template = new Request('get').to('http://host.example/users/:id');
+        const literal = new Request('get').to('http://host.example/users/1');
+
+        const subject = new RequestMatcher([template, literal], mode);
+
+        expect(subject.matchFor('http://host.example/users/1')).toEqual(
+          literal
+        );
+        expect(subject.matchFor('http://host.example/users/2')).toEqual(
+          template
+        );
+      });
+
+      it('honours matchers in configured options', () => {
+        const request = new Request('post').to('http://host.example').with({
+          headers: { 'X-Request-Id': match.string(/^[0-9]+$/) },
+          body: match.objectContaining({ key: 'value' }),
+        });
+
+        const subject = new RequestMatcher([request], mode);
+
+        expect(
+          subject.matchFor('http://host.example', {
+            headers: { 'X-Request-Id': '1234' },
+            body: { key: 'value', timestamp: Date.now() },
+          })
+        ).toEqual(request);
+
+        expect(
+          subject.matchFor('http://host.example', {
+            headers: { 'X-Request-Id': 'abcd' },
+          })
+        ).toBeNull();
+      });
+
       it('returns `null` when there are no matching requests', () => {
         const request = new Request('get')
           .to('http://host.example')
@@ -149,6 +186,72 @@ describe(RequestMatcher.name, () => {
         ).toEqual(match);
       });
 
+      it('honours matchers in configured options', () => {
+        const request = new Request('get')
+          .to('http://host.example')
+          .with({ params: { nonce: match.any(), page: '1' } });
+
+        const subject = new RequestMatcher([request], mode);
+
+        expect(
+          subject.matchFor('http://host.example', {
+            params: { nonce: 'abc123', page: '1' },
+          })
+        ).toEqual(request);
+
+        expect(
+          subject.matchFor('http://host.example', { params: { page: '1' } })
+        ).toBeNull();
+      });
+
+      it('matches header names case-insensitively', () => {
+        const request = new Request('get')
+          .to('http://host.example')
+          .with({ headers: { 'content-type': 'application/json' } });
+
+        const subject = new RequestMatcher([request], mode);
+
+        expect(
+          subject.matchFor('http://host.example', {
+            headers: { 'Content-Type': 'application/json' },
+          })
+        ).toEqual(request);
+      });
+
+      it('treats configured headers as a subset when using `subset` header matching', () => {
+        const request = new Request('get')
+          .to('http://host.example')
+          .with({ headers: { Authorization: 'Bearer token' } });
+
+        const exact = new RequestMatcher([request], mode);
+        const subset = new RequestMatcher([request], mode, 'subset');
+
+        const options = {
+          headers: {
+            accept: 'application/json, text/plain, */*',
+            authorization: 'Bearer token',
+          },
+        };
+
+        expect(exact.matchFor('http://host.example', options)).toBeNull();
+        expect(subset.matchFor('http://host.example', options)).toEqual(
+          request
+        );
+
+        expect(
+          subset.matchFor('http://host.example', {
+            ...options,
+            params: { key: 'value' },
+          })
+        ).toBeNull();
+
+        expect(
+          subset.matchFor('http://host.example', {
+            headers: { authorization: 'Bearer other' },
+          })
+        ).toBeNull();
+      });
+
       it('retuns `null` when no requests match on all parameters', () => {
         const request = new Request('get')
           .to('http://host.example')
@@ -160,4 +263,66 @@ describe(RequestMatcher.name, () => {
       });
     });
   });
+
+  describe('body schemas', () => {
+    const schema = {
+      type: 'object',
+      required: ['name'],
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+    };
+
+    it('matches bodies that conform to the schema in either mode', () => {
+      const request = new Request('post')
+        .to('http://host.example')
+        .withBodySchema(schema);
+
+      for (const mode of ['partial', 'strict'] as MatchMode[]) {
+        const subject = new RequestMatcher([request], mode);
+
+        expect(
+          subject.matchFor('http://host.example', { body: { name: 'user' } })
+        ).toEqual(request);
+        expect(
+          subject.matchFor('http://host.example', { body: { age: 1 } })
+        ).toBeNull();
+        expect(subject.matchFor('http://host.example')).toBeNull();
+      }
+    });
+
+    it('prefers a schema over no body in partial mode', () => {
+      const any = new Request('post').to('http://host.example');
+      const shaped = new Request('post')
+        .to('http://host.example')
+        .with({ bodySchema: schema });
+
+      const subject = new RequestMatcher([any, shaped], 'partial');
+
+      expect(
+        subject.matchFor('http://host.example', { body: { name: 'user' } })
+      ).toEqual(shaped);
+      expect(
+        subject.matchFor('http://host.example', { body: { age: 1 } })
+      ).toEqual(any);
+    });
+  });
+
+  describe('diagnose', () => {
+    it('lists the schema violations for requests matching the URI', () => {
+      const request = new Request('post')
+        .to('http://host.example')
+        .withBodySchema({ type: 'object', required: ['name'] });
+      const other = new Request('post')
+        .to('http://other.example')
+        .withBodySchema({ type: 'object', required: ['name'] });
+
+      const subject = new RequestMatcher([request, other], 'strict');
+
+      expect(
+        subject.diagnose('http://host.example', { body: { age: 'one' } })
+      ).toEqual([{ request, violations: ['body.name is required'] }]);
+      expect(
+        subject.diagnose('http://host.example', { body: { name: 'user' } })
+      ).toEqual([]);
+    });
+  });
 });
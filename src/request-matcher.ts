@@ -1,40 +1,46 @@
-import assert from 'assert';
-
+import { deepMatch } from './match';
 import { Request } from './request';
-import { MatchMode, RequestOptions } from './types';
+import { Scenarios } from './scenarios';
+import { formatErrors, validate } from './schema';
+import {
+  Diagnostic,
+  HeaderMatchMode,
+  MatchMode,
+  RequestOptions,
+} from './types';
+import { normalizeHeaders } from './util';
 
 type Matchable = Record<string, unknown> | undefined;
 type MatchFn = (expected: Matchable, actual: Matchable) => boolean;
 
-const eq: MatchFn = (expected, actual) => {
-  let match = false;
-
-  try {
-    assert.deepEqual(expected, actual);
-    match = true;
-  } catch {
-    // no-op
-  }
+const eq: MatchFn = (expected, actual) => deepMatch(expected, actual);
 
-  return match;
-};
+const subset: MatchFn = (expected, actual) =>
+  !expected ||
+  Object.entries(expected).every(([key, value]) =>
+    deepMatch(value, actual?.[key])
+  );
 
-const score = (expected: Matchable, actual: Matchable): number => {
+const score = (
+  expected: Matchable,
+  actual: Matchable,
+  fn: MatchFn = eq
+): number => {
   let multiplier = 0;
 
   if (expected && actual) {
     multiplier = 2;
   }
 
-  return (ok(expected, actual) ? 1 : 0) * multiplier;
+  return (ok(expected, actual, fn) ? 1 : 0) * multiplier;
 };
 
-const ok: MatchFn = (expected, actual) => {
+const ok = (expected: Matchable, actual: Matchable, fn: MatchFn = eq) => {
   if (!expected || !actual) {
     return true;
   }
 
-  return eq(expected, actual);
+  return fn(expected, actual);
 };
 
 class FilterableRequest {
@@ -44,53 +50,115 @@ class FilterableRequest {
     'body',
   ];
 
-  constructor(readonly request: Request) {}
+  constructor(
+    readonly request: Request,
+    protected headerMode: HeaderMatchMode = 'exact',
+    protected scenarios = new Scenarios()
+  ) {}
 
   for(uri: string): boolean {
-    return this.request.uri === uri && this.request.isInvokable();
+    return (
+      !!this.request.matchUri(uri) &&
+      this.request.isInvokable() &&
+      this.scenarios.isActive(this.request)
+    );
+  }
+
+  // A body schema constrains the shape of the body rather than its value
+  violations(options: RequestOptions): string[] {
+    const { bodySchema } = this.request;
+
+    if (!bodySchema) {
+      return [];
+    }
+
+    return formatErrors(validate(bodySchema, options.body, 'body'));
   }
 
   pass(options: RequestOptions): boolean {
+    if (this.request.matchesAnyOptions) {
+      return true;
+    }
+
     return this.matcherKeys.reduce(
       (k, key) =>
-        (k = k && (!options[key] || ok(options[key], this.request[key]))),
+        (k =
+          k &&
+          (!options[key] ||
+            ok(this.expected(key), options[key], this.comparator(key)))),
       true
     );
   }
 
   score(options: RequestOptions): number {
     return this.matcherKeys.reduce(
-      (sum, key) => (sum += score(this.request[key], options[key])),
-      0
+      (sum, key) =>
+        (sum += score(this.expected(key), options[key], this.comparator(key))),
+      this.request.uriSpecificity + (this.request.bodySchema ? 1 : 0)
     );
   }
 
   eq(options: RequestOptions): boolean {
-    return (
-      eq(this.request.headers, options.headers) &&
-      eq(this.request.params, options.params) &&
-      eq(this.request.body, options.body)
+    if (this.request.matchesAnyOptions) {
+      return true;
+    }
+
+    return this.matcherKeys.every(
+      (key) =>
+        (key === 'body' &&
+          this.request.bodySchema &&
+          this.request.body === undefined) ||
+        this.comparator(key)(this.expected(key), options[key])
     );
   }
+
+  // Header names are case-insensitive, so they are compared in lowercase
+  protected expected(key: keyof RequestOptions): Matchable {
+    if (key === 'headers') {
+      return normalizeHeaders(this.request.headers);
+    }
+
+    return this.request[key];
+  }
+
+  protected comparator(key: keyof RequestOptions): MatchFn {
+    return key === 'headers' && this.headerMode === 'subset' ? subset : eq;
+  }
 }
 
 class RequestMatcher {
-  constructor(protected requests: Request[], protected mode: MatchMode) {}
+  constructor(
+    protected requests: Request[],
+    protected mode: MatchMode,
+    protected headerMode: HeaderMatchMode = 'exact',
+    protected scenarios = new Scenarios()
+  ) {}
 
   protected get filterable(): FilterableRequest[] {
-    return this.requests.map((r) => new FilterableRequest(r));
+    return this.requests.map(
+      (r) => new FilterableRequest(r, this.headerMode, this.scenarios)
+    );
   }
 
   matchFor(uri: string, options?: RequestOptions): Request | null {
-    const matchOptions = options || {};
+    const matchOptions = {
+      ...options,
+      headers: normalizeHeaders(options?.headers),
+    };
     let match: FilterableRequest | undefined = undefined;
 
-    const requests = this.filterable.filter((r) => r.for(uri));
+    const requests = this.filterable
+      .filter((r) => r.for(uri) && r.violations(matchOptions).length === 0)
+      .sort((a, b) => b.request.layer - a.request.layer);
 
     if (this.mode === 'partial') {
       const sorted = requests
         .filter((r) => r.pass(matchOptions))
-        .sort((a, b) => b.score(matchOptions) - a.score(matchOptions));
+        .sort(
+          (a, b) =>
+            b.request.layer - a.request.layer ||
+            b.score(matchOptions) - a.score(matchOptions)
+        );
 
       match = sorted[0];
     } else {
@@ -99,6 +167,17 @@ class RequestMatcher {
 
     return match?.request || null;
   }
+
+  // Explain why requests configured for the URI did not match
+  diagnose(uri: string, options?: RequestOptions): Diagnostic[] {
+    return this.filterable
+      .filter((r) => r.for(uri))
+      .map((r) => ({
+        request: r.request,
+        violations: r.violations({ ...options }),
+      }))
+      .filter(({ violations }) => violations.length > 0);
+  }
 }
 
 export { RequestMatcher };
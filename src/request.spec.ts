@@ -1,4 +1,21 @@
+import { InternalAxiosRequestConfig } from 'axios';
+
+import { match } from './match';
 import { Request } from './request';
+import { IncomingRequest } from './types';
+
+const incoming: IncomingRequest = {
+  method: 'get',
+  uri: 'http://host.example',
+  pathParams: {},
+  config: {} as InternalAxiosRequestConfig,
+  passthrough: async () => ({
+    status: 200,
+    statusText: 'OK',
+    data: 'forwarded',
+    headers: {},
+  }),
+};
 
 describe(Request.name, () => {
   describe('isValid()', () => {
@@ -31,44 +48,313 @@ describe(Request.name, () => {
     });
   });
 
-  describe('response', () => {
+  describe('to()', () => {
+    it('moves a query string in the URI into the params', () => {
+      const subject = new Request('get')
+        .to('http://host.example/search?q=x&page=2')
+        .with({ params: { sort: 'asc' } });
+
+      expect(subject.uri).toEqual('http://host.example/search');
+      expect(subject.params).toEqual({ q: 'x', page: '2', sort: 'asc' });
+    });
+  });
+
+  describe('isSatisfied()', () => {
+    let subject: Request;
+
+    beforeEach(() => (subject = new Request('get').respondWith(200)));
+
+    it('is false until the request is invoked', async () => {
+      expect(subject.isSatisfied()).toBe(false);
+
+      await subject.respond(incoming);
+
+      expect(subject.isSatisfied()).toBe(true);
+    });
+  });
+
+  describe('invocation count modifiers', () => {
+    let subject: Request;
+
+    const invoke = async (count: number) => {
+      for (let i = 0; i < count; i++) {
+        await subject.respond(incoming);
+      }
+    };
+
+    beforeEach(() => (subject = new Request('get').respondWith(200)));
+
+    it('can be invoked any number of times by default', async () => {
+      await invoke(5);
+
+      expect(subject.isInvokable()).toBe(true);
+      expect(subject.isSatisfied()).toBe(true);
+    });
+
+    it('requires exactly `n` invocations when using `times(n)`', async () => {
+      subject.times(2);
+
+      await invoke(1);
+      expect(subject.isInvokable()).toBe(true);
+      expect(subject.isSatisfied()).toBe(false);
+
+      await invoke(1);
+      expect(subject.isInvokable()).toBe(false);
+      expect(subject.isSatisfied()).toBe(true);
+    });
+
+    it('provides shorthand for common counts', () => {
+      expect(new Request('get').twice()).toEqual(new Request('get').times(2));
+      expect(new Request('get').thrice()).toEqual(new Request('get').times(3));
+    });
+
+    it('requires a minimum number of invocations when using `atLeast(n)`', async () => {
+      subject.atLeast(2);
+
+      await invoke(1);
+      expect(subject.isSatisfied()).toBe(false);
+
+      await invoke(5);
+      expect(subject.isInvokable()).toBe(true);
+      expect(subject.isSatisfied()).toBe(true);
+    });
+
+    it('limits the number of invocations when using `atMost(n)`', async () => {
+      subject.atMost(2);
+      expect(subject.isSatisfied()).toBe(true);
+
+      await invoke(2);
+      expect(subject.isInvokable()).toBe(false);
+      expect(subject.isSatisfied()).toBe(true);
+    });
+
+    it('combines `atLeast(n)` and `atMost(n)` in either order', async () => {
+      for (const request of [
+        new Request('get').atLeast(1).atMost(3),
+        new Request('get').atMost(3).atLeast(1),
+      ]) {
+        subject = request.respondWith(200);
+        expect(subject.isSatisfied()).toBe(false);
+
+        await invoke(1);
+        expect(subject.isSatisfied()).toBe(true);
+
+        await invoke(2);
+        expect(subject.isInvokable()).toBe(false);
+      }
+    });
+
+    it('is never invokable when using `never()`', () => {
+      subject.never();
+
+      expect(subject.isInvokable()).toBe(false);
+      expect(subject.isSatisfied()).toBe(true);
+    });
+  });
+
+  describe('respond()', () => {
     let subject: Request;
 
     beforeEach(() => (subject = new Request('get')));
 
-    it('throws an exception when there is no configured response', () => {
-      expect(() => subject.response).toThrow(
+    it('throws an exception when there is no configured response', async () => {
+      await expect(subject.respond(incoming)).rejects.toThrow(
         'Response not configured for request: {"method":"get"}'
       );
     });
 
-    it('throws an exception when the response should time out', () => {
+    it('throws an exception when the response should time out', async () => {
       subject.timeout();
-      expect(() => subject.response).toThrow('Timeout');
+      await expect(subject.respond(incoming)).rejects.toThrow(
+        'timeout exceeded'
+      );
     });
 
-    it('responds the configured HTTP status and message', () => {
+    it('responds the configured HTTP status and message', async () => {
       subject.respondWith(200);
 
-      expect(subject.response).toEqual({
+      await expect(subject.respond(incoming)).resolves.toEqual({
         headers: {},
         status: 200,
         statusText: 'OK',
       });
     });
 
-    it('responds with the configured HTTP status, message, headers, and response body', () => {
+    it('responds with the configured HTTP status, message, headers, and response body', async () => {
       subject.respondWith(200, {
         headers: { Accept: 'application/json' },
         data: { key: 'value' },
       });
 
-      expect(subject.response).toEqual({
+      await expect(subject.respond(incoming)).resolves.toEqual({
         headers: { Accept: 'application/json' },
         data: { key: 'value' },
         status: 200,
         statusText: 'OK',
       });
     });
+
+    it('waits for a deferred response to be resolved', async () => {
+      const deferred = subject.defer();
+      const response = subject.respond(incoming);
+
+      expect(deferred.isSettled()).toBe(false);
+      deferred.resolve(202);
+
+      await expect(response).resolves.toEqual({
+        headers: {},
+        status: 202,
+        statusText: 'Accepted',
+      });
+    });
+
+    it('forwards the request when configured to pass through', async () => {
+      subject.passthrough();
+
+      await expect(subject.respond(incoming)).resolves.toMatchObject({
+        status: 200,
+        data: 'forwarded',
+      });
+    });
+
+    it('responds with the result of a configured callback', async () => {
+      subject.respondWith(({ uri }) => [201, { uri }, { key: 'value' }]);
+
+      await expect(subject.respond(incoming)).resolves.toEqual({
+        headers: { key: 'value' },
+        data: { uri: 'http://host.example' },
+        status: 201,
+        statusText: 'Created',
+      });
+    });
+
+    it('awaits the result of an asynchronous callback', async () => {
+      subject.respondWith(async () => [204]);
+
+      await expect(subject.respond(incoming)).resolves.toEqual({
+        headers: {},
+        status: 204,
+        statusText: 'No Content',
+      });
+    });
+  });
+
+  describe('sequential responses', () => {
+    let subject: Request;
+
+    const status = async () => (await subject.respond(incoming)).status;
+
+    beforeEach(
+      () =>
+        (subject = new Request('get')
+          .respondWith(503)
+          .thenRespondWith(503)
+          .thenRespondWith(200, { key: 'value' }))
+    );
+
+    it('returns each configured response in order', async () => {
+      expect(await status()).toBe(503);
+      expect(await status()).toBe(503);
+      await expect(subject.respond(incoming)).resolves.toMatchObject({
+        status: 200,
+        data: { key: 'value' },
+      });
+    });
+
+    it('repeats the last response by default once exhausted', async () => {
+      await Promise.all([status(), status(), status()]);
+
+      expect(subject.isInvokable()).toBe(true);
+      expect(await status()).toBe(200);
+    });
+
+    it('throws when exhausted when configured to `throw`', async () => {
+      subject.whenExhausted('throw');
+      await Promise.all([status(), status(), status()]);
+
+      expect(subject.isInvokable()).toBe(true);
+      await expect(subject.respond(incoming)).rejects.toThrow(
+        'Configured responses exhausted for request'
+      );
+    });
+
+    it('is no longer invokable when exhausted when configured to `fallthrough`', async () => {
+      subject.whenExhausted('fallthrough');
+      await Promise.all([status(), status(), status()]);
+
+      expect(subject.isInvokable()).toBe(false);
+    });
+
+    it('replaces the sequence when calling `respondWith()` again', async () => {
+      subject.respondWith(204);
+
+      expect(await status()).toBe(204);
+      expect(await status()).toBe(204);
+    });
+  });
+
+  describe('isDuplicateOf()', () => {
+    it('is true for requests configured with the same options', () => {
+      const request = () =>
+        new Request('post')
+          .to('http://host.example?key=value')
+          .with({ body: { key: 'value' } });
+
+      expect(request().isDuplicateOf(request())).toBe(true);
+      expect(
+        request().isDuplicateOf(request().with({ body: { key: 'other' } }))
+      ).toBe(false);
+      expect(request().isDuplicateOf(new Request('put'))).toBe(false);
+    });
+
+    it('compares predicate URIs by identity', () => {
+      const predicate = () => true;
+
+      expect(
+        new Request('get')
+          .to(predicate)
+          .isDuplicateOf(new Request('get').to(predicate))
+      ).toBe(true);
+      expect(
+        new Request('get')
+          .to(() => true)
+          .isDuplicateOf(new Request('get').to(() => true))
+      ).toBe(false);
+    });
+
+    it('compares matchers by identity', () => {
+      const id = match.where((value) => value === 1, 'id');
+      const request = (body: unknown) => new Request('post').with({ body });
+
+      expect(request({ id }).isDuplicateOf(request({ id }))).toBe(true);
+
+      // Both matchers share a description
+      const where = (expected: number) =>
+        match.where((value) => value === expected);
+
+      expect(
+        request({ id: where(1) }).isDuplicateOf(request({ id: where(2) }))
+      ).toBe(false);
+    });
+
+    it('distinguishes string and regular expression URIs', () => {
+      expect(
+        new Request('get').to('/a/').isDuplicateOf(new Request('get').to(/a/))
+      ).toBe(false);
+      expect(
+        new Request('get').to(/a/).isDuplicateOf(new Request('get').to(/a/))
+      ).toBe(true);
+    });
+  });
+
+  describe('dispose()', () => {
+    it('calls the disposer with the request', () => {
+      const disposer = jest.fn();
+      const subject = new Request('get', 0, disposer);
+
+      subject.dispose();
+
+      expect(disposer).toHaveBeenCalledWith(subject);
+    });
   });
 });
@@ -1,7 +1,31 @@
+import { InternalAxiosRequestConfig } from 'axios';
 import httpStatus from 'http-status';
-import { UnconfiguredResponseError } from './errors';
+import { ResponsesExhaustedError, UnconfiguredResponseError } from './errors';
+import { deepEqual } from './match';
 
-import { Headers, Method, Params, RequestOptions } from './types';
+import {
+  ExhaustedPolicy,
+  Headers,
+  IncomingRequest,
+  Latency,
+  Method,
+  Params,
+  PathParams,
+  RequestOptions,
+  UriSource,
+} from './types';
+import {
+  abortError,
+  connectionRefusedError,
+  connectionResetError,
+  dnsFailureError,
+  ErrorFactory,
+  networkError,
+  timeoutError,
+} from './network-errors';
+import { Schema } from './schema';
+import { UriPattern } from './uri-pattern';
+import { normalizeUri } from './util';
 
 type Response = {
   status: number;
@@ -13,6 +37,19 @@ type Response = {
 type ResponseWithHeaders<T> = { data: T; headers: Headers };
 type ReplayableResponse<T = any> = T | ResponseWithHeaders<T>;
 
+type ResponseTuple<T = unknown> = [status: number, data?: T, headers?: Headers];
+type ResponseCallback<T = unknown> = (
+  request: IncomingRequest
+) => ResponseTuple<T> | Promise<ResponseTuple<T>>;
+
+class Failure {
+  constructor(protected factory: ErrorFactory) {}
+
+  toError(config: InternalAxiosRequestConfig): Error {
+    return this.factory(config);
+  }
+}
+
 const isResponseWithHeaders = <T>(
   response: T | ResponseWithHeaders<T>
 ): response is ResponseWithHeaders<T> => {
@@ -24,20 +61,112 @@ const isResponseWithHeaders = <T>(
   );
 };
 
+const toResponse = (
+  status: number,
+  data?: unknown,
+  headers: Headers = {}
+): Response => ({
+  status,
+  data,
+  headers,
+  statusText: httpStatus[status] as string,
+});
+
+const buildResponse = <T>(
+  status: number,
+  response?: ReplayableResponse<T>
+): Response => {
+  let data: any = undefined;
+  let headers: Headers = {};
+
+  if (response) {
+    if (isResponseWithHeaders(response)) {
+      ({ data, headers } = response);
+    } else {
+      data = response;
+    }
+  }
+
+  return toResponse(status, data, headers);
+};
+
+// Forwards the request to the fallback adapter configured on the mock
+class Passthrough {}
+
+class DeferredResponse {
+  protected promise: Promise<Response>;
+  protected settled = false;
+
+  protected _resolve!: (response: Response) => void;
+  protected _reject!: (error: Error) => void;
+
+  constructor() {
+    this.promise = new Promise((resolve, reject) => {
+      this._resolve = resolve;
+      this._reject = reject;
+    });
+
+    // Rejections are surfaced to the pending requests instead
+    this.promise.catch(() => undefined);
+  }
+
+  resolve<T>(status: number, response?: ReplayableResponse<T>): void {
+    this.settled = true;
+    this._resolve(buildResponse(status, response));
+  }
+
+  reject(error: Error): void {
+    this.settled = true;
+    this._reject(error);
+  }
+
+  isSettled(): boolean {
+    return this.settled;
+  }
+
+  get response(): Promise<Response> {
+    return this.promise;
+  }
+}
+
+type Reply =
+  | Response
+  | ResponseCallback
+  | Failure
+  | DeferredResponse
+  | Passthrough;
+
 class Request {
-  protected _uri?: string;
+  protected _uri?: UriPattern;
+  protected queryParams?: Params;
   protected options?: RequestOptions;
+  protected anyOptions = false;
+
+  protected replies: Reply[] = [];
+  protected exhaustedPolicy: ExhaustedPolicy = 'repeat';
+  protected _latency?: Latency;
 
-  protected exception?: Error;
-  protected _response?: Response;
+  protected _scenario?: string;
+  protected _requiredState?: string;
+  protected _nextState?: string;
 
   protected invocationCount = 0;
+  protected minInvocationCount: number | undefined = undefined;
   protected maxInvocationCount: number | undefined = undefined;
 
-  constructor(readonly method: Method) {}
+  // Requests on a higher layer take precedence over those on a lower one
+  constructor(
+    readonly method: Method,
+    readonly layer = 0,
+    protected disposer?: (request: Request) => void
+  ) {}
 
-  to(uri: string): this {
-    this._uri = uri;
+  to(uri: UriSource): this {
+    if (typeof uri === 'string') {
+      ({ uri, params: this.queryParams } = normalizeUri(uri));
+    }
+
+    this._uri = new UriPattern(uri);
     return this;
   }
 
@@ -46,57 +175,253 @@ class Request {
     return this;
   }
 
+  withBodySchema(schema: Schema): this {
+    return this.with({ bodySchema: schema });
+  }
+
+  // Match on the method and URI alone, whatever the headers, params, and body
+  withAnyOptions(): this {
+    this.anyOptions = true;
+    return this;
+  }
+
+  inScenario(name: string): this {
+    this._scenario = name;
+    return this;
+  }
+
+  whenState(state: string): this {
+    this._requiredState = state;
+    return this;
+  }
+
+  willSetStateTo(state: string): this {
+    this._nextState = state;
+    return this;
+  }
+
   once(): this {
-    this.maxInvocationCount = 1;
+    return this.times(1);
+  }
+
+  twice(): this {
+    return this.times(2);
+  }
+
+  thrice(): this {
+    return this.times(3);
+  }
+
+  times(count: number): this {
+    this.minInvocationCount = count;
+    this.maxInvocationCount = count;
+    return this;
+  }
+
+  atLeast(count: number): this {
+    this.minInvocationCount = count;
+    return this;
+  }
+
+  atMost(count: number): this {
+    this.maxInvocationCount = count;
+    return this;
+  }
+
+  never(): this {
+    return this.times(0);
+  }
+
+  timeout(): this {
+    return this.failWith(timeoutError);
+  }
+
+  networkError(): this {
+    return this.failWith(networkError);
+  }
+
+  connectionRefused(): this {
+    return this.failWith(connectionRefusedError);
+  }
+
+  connectionReset(): this {
+    return this.failWith(connectionResetError);
+  }
+
+  dnsFailure(): this {
+    return this.failWith(dnsFailureError);
+  }
+
+  abort(): this {
+    return this.failWith(abortError);
+  }
+
+  protected failWith(factory: ErrorFactory): this {
+    this.replies = [new Failure(factory)];
+    return this;
+  }
+
+  respondWith<T>(callback: ResponseCallback<T>): this;
+  respondWith<T>(status: number, response?: ReplayableResponse<T>): this;
+  respondWith<T>(
+    statusOrCallback: number | ResponseCallback<T>,
+    response?: ReplayableResponse<T>
+  ): this {
+    this.replies = [this.buildReply(statusOrCallback, response)];
+    return this;
+  }
+
+  thenRespondWith<T>(callback: ResponseCallback<T>): this;
+  thenRespondWith<T>(status: number, response?: ReplayableResponse<T>): this;
+  thenRespondWith<T>(
+    statusOrCallback: number | ResponseCallback<T>,
+    response?: ReplayableResponse<T>
+  ): this {
+    this.replies.push(this.buildReply(statusOrCallback, response));
+    return this;
+  }
+
+  defer(): DeferredResponse {
+    const deferred = new DeferredResponse();
+    this.replies = [deferred];
+
+    return deferred;
+  }
+
+  passthrough(): this {
+    this.replies = [new Passthrough()];
+    return this;
+  }
+
+  delay(ms: number): this {
+    this._latency = ms;
     return this;
   }
 
-  timeout(): void {
-    this.exception = new Error('Timeout');
+  delayRange(min: number, max: number): this {
+    this._latency = [min, max];
+    return this;
   }
 
-  respondWith<T>(status: number, response?: ReplayableResponse<T>): this {
-    let data: any = undefined;
-    let headers: Headers = {};
+  whenExhausted(policy: ExhaustedPolicy): this {
+    this.exhaustedPolicy = policy;
+    return this;
+  }
 
-    if (response) {
-      if (isResponseWithHeaders(response)) {
-        ({ data, headers } = response);
-      } else {
-        data = response;
-      }
+  protected buildReply<T>(
+    statusOrCallback: number | ResponseCallback<T>,
+    response?: ReplayableResponse<T>
+  ): Reply {
+    if (typeof statusOrCallback === 'function') {
+      return statusOrCallback;
     }
 
-    this._response = {
-      status,
-      data,
-      headers,
-      statusText: httpStatus[status] as string,
-    };
+    return buildResponse(statusOrCallback, response);
+  }
 
+  // Return to an earlier invocation count, along with the reply it selects
+  rewind(count = 0): this {
+    this.invocationCount = count;
     return this;
   }
 
+  // Remove the request from the mock that registered it
+  dispose(): void {
+    this.disposer?.(this);
+  }
+
+  // Whether the request was configured with the same method, URI, and options
+  isDuplicateOf(other: Request): boolean {
+    const configurationOf = (request: Request) => ({
+      ...request.toJSON(),
+      uri: request._uri?.source,
+      anyOptions: request.anyOptions,
+    });
+
+    return deepEqual(configurationOf(this), configurationOf(other));
+  }
+
   isInvokable(): boolean {
+    if (
+      this.exhaustedPolicy === 'fallthrough' &&
+      this.invocationCount >= this.replies.length
+    ) {
+      return false;
+    }
+
     return (
-      !this.maxInvocationCount || this.invocationCount < this.maxInvocationCount
+      this.maxInvocationCount === undefined ||
+      this.invocationCount < this.maxInvocationCount
     );
   }
 
+  isSatisfied(): boolean {
+    return this.invocationCount >= this.minInvocations;
+  }
+
   isValid(): boolean {
-    return !!this.uri && (!!this._response || !!this.exception);
+    return !!this.uri && this.replies.length > 0;
   }
 
   toJSON(): Record<string, unknown> {
-    const { method, uri, headers, params, body } = this;
-    return { method, uri, headers, params, body };
+    const { method, uri, headers, params, body, bodySchema } = this;
+    const scenario = this._scenario && {
+      name: this._scenario,
+      state: this._requiredState,
+      nextState: this._nextState,
+    };
+
+    return { method, uri, headers, params, body, bodySchema, scenario };
+  }
+
+  matchUri(uri: string): PathParams | null {
+    return this._uri?.match(uri) ?? null;
   }
 
   get uri(): string | undefined {
-    return this._uri;
+    return this._uri?.toString();
   }
 
-  get headers(): Headers | undefined {
+  get latency(): Latency | undefined {
+    return this._latency;
+  }
+
+  get scenario(): string | undefined {
+    return this._scenario;
+  }
+
+  get requiredState(): string | undefined {
+    return this._requiredState;
+  }
+
+  get nextState(): string | undefined {
+    return this._nextState;
+  }
+
+  // A request must be invoked once unless given a minimum, or only a maximum
+  get minInvocations(): number {
+    return (
+      this.minInvocationCount ?? (this.maxInvocationCount === undefined ? 1 : 0)
+    );
+  }
+
+  get maxInvocations(): number | undefined {
+    return this.maxInvocationCount;
+  }
+
+  get invocations(): number {
+    return this.invocationCount;
+  }
+
+  get matchesAnyOptions(): boolean {
+    return this.anyOptions;
+  }
+
+  get uriSpecificity(): number {
+    return this._uri?.specificity ?? 0;
+  }
+
+  get headers(): RequestOptions['headers'] {
     return this.options?.headers;
   }
 
@@ -104,18 +429,22 @@ class Request {
     return this.options?.body;
   }
 
-  get params(): Params | undefined {
-    return this.options?.params;
+  get bodySchema(): Schema | undefined {
+    return this.options?.bodySchema;
   }
 
-  get response(): Response {
-    this.invocationCount++;
-
-    if (this.exception) {
-      throw this.exception;
+  get params(): RequestOptions['params'] {
+    if (!this.queryParams) {
+      return this.options?.params;
     }
 
-    if (!this._response) {
+    return { ...this.queryParams, ...this.options?.params };
+  }
+
+  async respond(request: IncomingRequest): Promise<Response> {
+    const index = this.invocationCount++;
+
+    if (this.replies.length === 0) {
       throw new UnconfiguredResponseError({
         method: this.method,
         uri: this.uri,
@@ -123,8 +452,30 @@ class Request {
       });
     }
 
-    return this._response;
+    if (index >= this.replies.length && this.exhaustedPolicy === 'throw') {
+      throw new ResponsesExhaustedError(this);
+    }
+
+    const reply = this.replies[Math.min(index, this.replies.length - 1)];
+
+    if (reply instanceof Failure) {
+      throw reply.toError(request.config);
+    }
+
+    if (reply instanceof DeferredResponse) {
+      return reply.response;
+    }
+
+    if (reply instanceof Passthrough) {
+      return request.passthrough();
+    }
+
+    if (typeof reply === 'function') {
+      return toResponse(...(await reply(request)));
+    }
+
+    return reply;
   }
 }
 
-export { Request };
+export { DeferredResponse, Request, Response, ResponseCallback, ResponseTuple };
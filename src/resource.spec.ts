@@ -0,0 +1,156 @@
+import Axios from 'axios';
+
+import { HttpMock } from './http-mock';
+import { Resource } from './resource';
+
+describe(Resource.name, () => {
+  const url = 'https://host.example/users';
+  const httpMock = new HttpMock({ matching: 'partial' });
+  const client = Axios.create({
+    adapter: httpMock.adapter,
+    validateStatus: () => true,
+  });
+
+  let users: Resource;
+
+  beforeEach(() => {
+    httpMock.reset();
+    users = httpMock.resource('/users', {
+      seed: [{ id: 1, name: 'first' }],
+    });
+  });
+
+  it('lists the items in the collection', async () => {
+    await expect(client.get(url)).resolves.toMatchObject({
+      status: 200,
+      data: [{ id: 1, name: 'first' }],
+    });
+  });
+
+  it('gets a single item', async () => {
+    await expect(client.get(`${url}/1`)).resolves.toMatchObject({
+      status: 200,
+      data: { id: 1, name: 'first' },
+    });
+    await expect(client.get(`${url}/2`)).resolves.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('creates items that are visible to later requests', async () => {
+    await expect(client.post(url, { name: 'second' })).resolves.toMatchObject({
+      status: 201,
+      data: { id: 2, name: 'second' },
+    });
+
+    const { data } = await client.get(url);
+
+    expect(data).toEqual([
+      { id: 1, name: 'first' },
+      { id: 2, name: 'second' },
+    ]);
+    expect(users.find(2)).toEqual({ id: 2, name: 'second' });
+  });
+
+  it('keeps ids given in the body unless they are taken', async () => {
+    await expect(
+      client.post(url, { id: 1, name: 'taken' })
+    ).resolves.toMatchObject({ status: 409 });
+    await expect(
+      client.post(url, { id: 5, name: 'fifth' })
+    ).resolves.toMatchObject({ status: 201, data: { id: 5, name: 'fifth' } });
+    await expect(client.post(url, { name: 'sixth' })).resolves.toMatchObject({
+      status: 201,
+      data: { id: 6, name: 'sixth' },
+    });
+
+    expect(users.items.map(({ id }) => id)).toEqual([1, 5, 6]);
+  });
+
+  it('replaces an item', async () => {
+    await client.post(url, { name: 'second', role: 'admin' });
+
+    await expect(
+      client.put(`${url}/2`, { name: 'replaced' })
+    ).resolves.toMatchObject({
+      status: 200,
+      data: { id: 2, name: 'replaced' },
+    });
+    await expect(client.put(`${url}/3`, {})).resolves.toMatchObject({
+      status: 404,
+    });
+
+    expect(users.find(2)).toEqual({ id: 2, name: 'replaced' });
+  });
+
+  it('updates an item', async () => {
+    await expect(
+      client.patch(`${url}/1`, { role: 'admin', id: 5 })
+    ).resolves.toMatchObject({
+      status: 200,
+      data: { id: 1, name: 'first', role: 'admin' },
+    });
+    await expect(client.patch(`${url}/3`, {})).resolves.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('deletes an item', async () => {
+    await expect(client.delete(`${url}/1`)).resolves.toMatchObject({
+      status: 204,
+    });
+    await expect(client.delete(`${url}/1`)).resolves.toMatchObject({
+      status: 404,
+    });
+
+    expect(users.items).toEqual([]);
+  });
+
+  it('uses the configured id field', async () => {
+    httpMock.reset();
+    const posts = httpMock.resource('https://host.example/posts', {
+      seed: [{ slug: 'hello', title: 'Hello' }],
+      idField: 'slug',
+    });
+
+    await expect(
+      client.get('https://host.example/posts/hello')
+    ).resolves.toMatchObject({ status: 200, data: { title: 'Hello' } });
+    await expect(client.get('https://other.example/posts')).rejects.toThrow();
+
+    expect(posts.requests).toHaveLength(6);
+  });
+
+  it('does not share state with the seed or responses', async () => {
+    const seed = [{ id: 1, name: 'first' }];
+
+    httpMock.reset();
+    const resource = httpMock.resource(url, { seed });
+
+    const { data } = await client.get(`${url}/1`);
+    data.name = 'changed';
+    seed[0].name = 'changed';
+
+    expect(resource.find(1)).toEqual({ id: 1, name: 'first' });
+  });
+
+  it('matches on the method and URI in strict mode', async () => {
+    const strictMock = new HttpMock();
+    const strictClient = Axios.create({ adapter: strictMock.adapter });
+
+    strictMock.resource('/users', { seed: [{ id: 1, name: 'first' }] });
+
+    await expect(
+      strictClient.get(url, { headers: { Authorization: 'token' } })
+    ).resolves.toMatchObject({ status: 200, data: [{ id: 1, name: 'first' }] });
+    await expect(
+      strictClient.post(url, { name: 'second' }, { params: { notify: true } })
+    ).resolves.toMatchObject({ status: 201, data: { id: 2, name: 'second' } });
+  });
+
+  it('does not require the handlers to be called', async () => {
+    await client.get(url);
+
+    expect(() => httpMock.verify()).not.toThrow();
+  });
+});
@@ -0,0 +1,158 @@
+import httpStatus from 'http-status';
+
+import { Request, ResponseTuple } from './request';
+import { IncomingRequest, Method } from './types';
+
+type Item = Record<string, unknown>;
+
+type ResourceOptions<T extends Item> = {
+  seed?: T[];
+  idField?: string;
+};
+
+type Registrar = (method: Method) => Request;
+
+const escape = (literal: string): string =>
+  literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A path such as `/users` matches on any origin, while a full URI only matches
+// on its own
+const patternsFor = (uri: string): { collection: RegExp; member: RegExp } => {
+  const base = uri.replace(/\/$/, '');
+  const origin = base.startsWith('/') ? '(?:[^:/?#]+://[^/?#]+)?' : '';
+  const prefix = `^${origin}${escape(base)}`;
+
+  return {
+    collection: new RegExp(`${prefix}$`),
+    member: new RegExp(`${prefix}/(?<id>[^/?#]+)$`),
+  };
+};
+
+// An in-memory collection exposed through CRUD handlers, so that dependent
+// requests (such as creating an item and then listing it) see each other
+class Resource<T extends Item = Item> {
+  protected collection: T[];
+  protected idField: string;
+  protected nextId: number;
+
+  readonly requests: Request[];
+
+  constructor(
+    readonly uri: string,
+    register: Registrar,
+    options?: ResourceOptions<T>
+  ) {
+    this.collection = (options?.seed ?? []).map((item) => ({ ...item }));
+    this.idField = options?.idField ?? 'id';
+    this.nextId =
+      Math.max(
+        0,
+        ...this.collection
+          .map((item) => Number(item[this.idField]))
+          .filter((id) => Number.isInteger(id))
+      ) + 1;
+
+    const { collection, member } = patternsFor(uri);
+
+    // The handlers match on the method and URI alone, and are not required to
+    // be called
+    const on: Registrar = (method) =>
+      register(method).withAnyOptions().atLeast(0);
+
+    this.requests = [
+      on('get')
+        .to(collection)
+        .respondWith(() => [httpStatus.OK, this.items]),
+      on('get')
+        .to(member)
+        .respondWith(this.withItem((item) => [httpStatus.OK, { ...item }])),
+      on('post')
+        .to(collection)
+        .respondWith(({ body }) => this.create(body)),
+      on('put')
+        .to(member)
+        .respondWith(
+          this.withItem((item, { body }) => this.update(item, body, true))
+        ),
+      on('patch')
+        .to(member)
+        .respondWith(
+          this.withItem((item, { body }) => this.update(item, body, false))
+        ),
+      on('delete')
+        .to(member)
+        .respondWith(
+          this.withItem((item) => {
+            this.collection = this.collection.filter((i) => i !== item);
+            return [httpStatus.NO_CONTENT];
+          })
+        ),
+    ];
+  }
+
+  get items(): T[] {
+    return this.collection.map((item) => ({ ...item }));
+  }
+
+  find(id: unknown): T | undefined {
+    const item = this.collection.find(
+      (i) => String(i[this.idField]) === String(id)
+    );
+
+    return item && { ...item };
+  }
+
+  protected withItem(
+    handler: (item: T, request: IncomingRequest) => ResponseTuple
+  ): (request: IncomingRequest) => ResponseTuple {
+    return (request) => {
+      const item = this.collection.find(
+        (i) => String(i[this.idField]) === request.pathParams.id
+      );
+
+      if (!item) {
+        return [httpStatus.NOT_FOUND];
+      }
+
+      return handler(item, request);
+    };
+  }
+
+  // An id given in the body is kept unless another item already has it
+  protected create(body: unknown): ResponseTuple {
+    const id = (body as T | undefined)?.[this.idField];
+
+    if (id !== undefined && this.find(id)) {
+      return [httpStatus.CONFLICT];
+    }
+
+    const item = {
+      [this.idField]: this.nextId,
+      ...(body as T),
+    } as T;
+
+    const numericId = Number(item[this.idField]);
+
+    if (Number.isInteger(numericId)) {
+      this.nextId = Math.max(this.nextId, numericId + 1);
+    }
+
+    this.collection.push(item);
+
+    return [httpStatus.CREATED, { ...item }];
+  }
+
+  protected update(item: T, body: unknown, replace: boolean): ResponseTuple {
+    const updated = {
+      ...(replace ? {} : item),
+      ...(body as T),
+      [this.idField]: item[this.idField],
+    } as T;
+
+    this.collection = this.collection.map((i) => (i === item ? updated : i));
+
+    return [httpStatus.OK, { ...updated }];
+  }
+}
+
+export { Resource, ResourceOptions };
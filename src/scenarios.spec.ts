@@ -0,0 +1,59 @@
+import { Request } from './request';
+import { Scenarios, STARTED } from './scenarios';
+
+describe(Scenarios.name, () => {
+  let subject: Scenarios;
+
+  beforeEach(() => (subject = new Scenarios()));
+
+  it('starts every scenario in the `Started` state', () => {
+    expect(subject.stateOf('checkout')).toEqual(STARTED);
+  });
+
+  it('resets one or all scenarios', () => {
+    subject.set('checkout', 'paid');
+    subject.set('signup', 'verified');
+
+    subject.reset('checkout');
+    expect(subject.stateOf('checkout')).toEqual(STARTED);
+    expect(subject.stateOf('signup')).toEqual('verified');
+
+    subject.reset();
+    expect(subject.stateOf('signup')).toEqual(STARTED);
+  });
+
+  describe('isActive()', () => {
+    it('is true for requests without a scenario or required state', () => {
+      expect(subject.isActive(new Request('get'))).toBe(true);
+      expect(subject.isActive(new Request('get').inScenario('checkout'))).toBe(
+        true
+      );
+    });
+
+    it('is true only while the scenario is in the required state', () => {
+      const request = new Request('get')
+        .inScenario('checkout')
+        .whenState('paid');
+
+      expect(subject.isActive(request)).toBe(false);
+
+      subject.set('checkout', 'paid');
+      expect(subject.isActive(request)).toBe(true);
+    });
+  });
+
+  describe('advance()', () => {
+    it('moves the scenario to the next state', () => {
+      subject.advance(
+        new Request('get').inScenario('checkout').willSetStateTo('paid')
+      );
+
+      expect(subject.stateOf('checkout')).toEqual('paid');
+    });
+
+    it('ignores requests without a scenario', () => {
+      subject.advance(new Request('get').willSetStateTo('paid'));
+      expect(subject.stateOf('checkout')).toEqual(STARTED);
+    });
+  });
+});
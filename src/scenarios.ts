@@ -0,0 +1,45 @@
+import { Request } from './request';
+
+const STARTED = 'Started';
+
+// The current state of each named scenario. Scenarios that have not been moved
+// to another state are in the `Started` state.
+class Scenarios {
+  protected states = new Map<string, string>();
+
+  stateOf(name: string): string {
+    return this.states.get(name) ?? STARTED;
+  }
+
+  set(name: string, state: string): void {
+    this.states.set(name, state);
+  }
+
+  reset(name?: string): void {
+    if (name) {
+      this.states.delete(name);
+    } else {
+      this.states.clear();
+    }
+  }
+
+  isActive(request: Request): boolean {
+    const { scenario, requiredState } = request;
+
+    return (
+      !scenario ||
+      requiredState === undefined ||
+      this.stateOf(scenario) === requiredState
+    );
+  }
+
+  advance(request: Request): void {
+    const { scenario, nextState } = request;
+
+    if (scenario && nextState !== undefined) {
+      this.set(scenario, nextState);
+    }
+  }
+}
+
+export { Scenarios, STARTED };
@@ -0,0 +1,152 @@
+import { generate, Schema, validate } from './schema';
+
+describe(validate.name, () => {
+  const user: Schema = {
+    type: 'object',
+    required: ['id', 'name'],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      name: { type: 'string', minLength: 1, maxLength: 10 },
+      email: { type: 'string', pattern: '@' },
+      role: { enum: ['admin', 'member'] },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      manager: { type: 'integer', nullable: true },
+    },
+  };
+
+  it('accepts a valid value', () => {
+    expect(
+      validate(user, {
+        id: 1,
+        name: 'user',
+        email: 'user@example.com',
+        role: 'admin',
+        tags: ['a'],
+        manager: null,
+      })
+    ).toEqual([]);
+  });
+
+  it('reports each violation with its path', () => {
+    expect(
+      validate(
+        user,
+        {
+          id: 0,
+          name: '',
+          email: 'example.com',
+          role: 'owner',
+          tags: ['a', 2, 'c'],
+          extra: true,
+        },
+        'body'
+      )
+    ).toEqual([
+      { path: 'body.id', message: 'must be at least 1' },
+      { path: 'body.name', message: 'must be at least 1 characters' },
+      { path: 'body.email', message: 'must match pattern @' },
+      { path: 'body.role', message: 'must be one of "admin", "member"' },
+      { path: 'body.tags', message: 'must have at most 2 items' },
+      { path: 'body.tags[1]', message: 'must be string' },
+      { path: 'body.extra', message: 'is not allowed' },
+    ]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validate(user, {})).toEqual([
+      { path: '$.id', message: 'is required' },
+      { path: '$.name', message: 'is required' },
+    ]);
+  });
+
+  it('reports type mismatches', () => {
+    expect(validate(user, [])).toEqual([
+      { path: '$', message: 'must be object' },
+    ]);
+    expect(validate({ type: ['string', 'null'] }, 1)).toEqual([
+      { path: '$', message: 'must be string or null' },
+    ]);
+    expect(validate({ type: 'number' }, 1)).toEqual([]);
+  });
+
+  it('resolves local references', () => {
+    const root = {
+      components: { schemas: { Id: { type: 'integer' } } },
+    };
+
+    expect(
+      validate({ $ref: '#/components/schemas/Id' }, 'one', 'id', root)
+    ).toEqual([{ path: 'id', message: 'must be integer' }]);
+  });
+
+  it('supports composition keywords', () => {
+    const schema: Schema = {
+      allOf: [{ required: ['id'] }],
+      oneOf: [{ required: ['name'] }, { required: ['email'] }],
+    };
+
+    expect(validate(schema, { id: 1, name: 'user' })).toEqual([]);
+    expect(validate(schema, { id: 1, name: 'user', email: 'e' })).toEqual([
+      { path: '$', message: 'must match exactly one schema in oneOf' },
+    ]);
+    expect(validate({ anyOf: [{ type: 'string' }] }, 1)).toEqual([
+      { path: '$', message: 'must match a schema in anyOf' },
+    ]);
+  });
+});
+
+describe(generate.name, () => {
+  it('prefers examples and defaults', () => {
+    expect(generate({ type: 'string', example: 'example' })).toEqual('example');
+    expect(generate({ type: 'integer', default: 5 })).toEqual(5);
+    expect(generate({ enum: ['a', 'b'] })).toEqual('a');
+  });
+
+  it('generates values that satisfy the schema', () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        createdAt: { type: 'string', format: 'date-time' },
+        tags: { type: 'array', items: { type: 'string' } },
+        active: { type: 'boolean' },
+        owner: { $ref: '#/definitions/Owner' },
+      },
+      definitions: { Owner: { type: 'object', properties: {} } },
+    } as Schema;
+
+    const value = generate(schema);
+
+    expect(value).toEqual({
+      id: 1,
+      createdAt: '2000-01-01T00:00:00.000Z',
+      tags: ['string'],
+      active: true,
+      owner: {},
+    });
+    expect(validate(schema, value)).toEqual([]);
+  });
+
+  it('stops expanding recursive references', () => {
+    const schema = {
+      $ref: '#/definitions/Node',
+      definitions: {
+        Node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/definitions/Node' } },
+            parent: { $ref: '#/definitions/Node' },
+          },
+        },
+      },
+    } as Schema;
+
+    expect(generate(schema)).toEqual({
+      name: 'string',
+      children: [],
+      parent: {},
+    });
+  });
+});
@@ -0,0 +1,417 @@
+// A small JSON Schema validator and example generator covering the keywords
+// used by OpenAPI documents. Only local references (`#/...`) are resolved.
+type Schema = {
+  $ref?: string;
+  type?: string | string[];
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  example?: unknown;
+  default?: unknown;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  allOf?: Schema[];
+  anyOf?: Schema[];
+  oneOf?: Schema[];
+  not?: Schema;
+};
+
+type SchemaError = { path: string; message: string };
+
+const resolve = <T extends { $ref?: string }>(node: T, root: unknown): T => {
+  if (!node.$ref) {
+    return node;
+  }
+
+  const target = node.$ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+      root
+    );
+
+  if (typeof target !== 'object' || target === null) {
+    throw new Error(`Unable to resolve schema reference: ${node.$ref}`);
+  }
+
+  return resolve(target as T, root);
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+
+  return typeof value;
+};
+
+const typesOf = (schema: Schema): string[] | undefined => {
+  if (!schema.type) {
+    return undefined;
+  }
+
+  const types = ([] as string[]).concat(schema.type);
+  return schema.nullable ? [...types, 'null'] : types;
+};
+
+const isType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const equal = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const child = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : `${path}.${key}`;
+
+const validateNumber = (
+  schema: Schema,
+  value: number,
+  path: string
+): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+    errors.push({ path, message: `must be greater than ${exclusiveMinimum}` });
+  }
+
+  if (minimum !== undefined) {
+    if (exclusiveMinimum === true ? value <= minimum : value < minimum) {
+      errors.push({ path, message: `must be at least ${minimum}` });
+    }
+  }
+
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+    errors.push({ path, message: `must be less than ${exclusiveMaximum}` });
+  }
+
+  if (maximum !== undefined) {
+    if (exclusiveMaximum === true ? value >= maximum : value > maximum) {
+      errors.push({ path, message: `must be at most ${maximum}` });
+    }
+  }
+
+  return errors;
+};
+
+const validateString = (
+  schema: Schema,
+  value: string,
+  path: string
+): SchemaError[] => {
+  const errors: SchemaError[] = [];
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({
+      path,
+      message: `must be at least ${schema.minLength} characters`,
+    });
+  }
+
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({
+      path,
+      message: `must be at most ${schema.maxLength} characters`,
+    });
+  }
+
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+
+  return errors;
+};
+
+const validateArray = (
+  schema: Schema,
+  value: unknown[],
+  path: string,
+  root: unknown
+): SchemaError[] => {
+  const errors: SchemaError[] = [];
+
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({
+      path,
+      message: `must have at least ${schema.minItems} items`,
+    });
+  }
+
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({
+      path,
+      message: `must have at most ${schema.maxItems} items`,
+    });
+  }
+
+  if (schema.items) {
+    const items = schema.items;
+
+    value.forEach((item, index) =>
+      errors.push(...validate(items, item, child(path, index), root))
+    );
+  }
+
+  return errors;
+};
+
+const validateObject = (
+  schema: Schema,
+  value: Record<string, unknown>,
+  path: string,
+  root: unknown
+): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      errors.push({ path: child(path, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, property] of Object.entries(value)) {
+    if (property === undefined) {
+      continue;
+    }
+
+    if (properties[key]) {
+      errors.push(
+        ...validate(properties[key], property, child(path, key), root)
+      );
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: child(path, key), message: 'is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      errors.push(
+        ...validate(
+          schema.additionalProperties,
+          property,
+          child(path, key),
+          root
+        )
+      );
+    }
+  }
+
+  return errors;
+};
+
+// Validate a value against a schema, returning an error for each violation
+const validate = (
+  schema: Schema,
+  value: unknown,
+  path = '$',
+  root: unknown = schema
+): SchemaError[] => {
+  schema = resolve(schema, root);
+
+  const types = typesOf(schema);
+
+  if (value === null && schema.nullable) {
+    return [];
+  }
+
+  if (types && !types.some((type) => isType(value, type))) {
+    return [{ path, message: `must be ${types.join(' or ')}` }];
+  }
+
+  if (schema.enum && !schema.enum.some((option) => equal(option, value))) {
+    return [
+      {
+        path,
+        message: `must be one of ${schema.enum
+          .map((option) => JSON.stringify(option))
+          .join(', ')}`,
+      },
+    ];
+  }
+
+  if (schema.const !== undefined && !equal(schema.const, value)) {
+    return [{ path, message: `must be ${JSON.stringify(schema.const)}` }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  for (const subschema of schema.allOf ?? []) {
+    errors.push(...validate(subschema, value, path, root));
+  }
+
+  if (schema.anyOf) {
+    const valid = schema.anyOf.some(
+      (subschema) => validate(subschema, value, path, root).length === 0
+    );
+
+    if (!valid) {
+      errors.push({ path, message: 'must match a schema in anyOf' });
+    }
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (subschema) => validate(subschema, value, path, root).length === 0
+    ).length;
+
+    if (matches !== 1) {
+      errors.push({ path, message: 'must match exactly one schema in oneOf' });
+    }
+  }
+
+  if (schema.not && validate(schema.not, value, path, root).length === 0) {
+    errors.push({ path, message: 'must not match the schema in not' });
+  }
+
+  if (typeof value === 'number') {
+    errors.push(...validateNumber(schema, value, path));
+  } else if (typeof value === 'string') {
+    errors.push(...validateString(schema, value, path));
+  } else if (Array.isArray(value)) {
+    errors.push(...validateArray(schema, value, path, root));
+  } else if (typeOf(value) === 'object') {
+    errors.push(
+      ...validateObject(schema, value as Record<string, unknown>, path, root)
+    );
+  }
+
+  return errors;
+};
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  date: '2000-01-01',
+  'date-time': '2000-01-01T00:00:00.000Z',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  uuid: '00000000-0000-4000-8000-000000000000',
+};
+
+// A reference that is already being expanded is not expanded again, so that
+// recursive schemas end with an empty value
+const isExpanding = (schema: Schema, expanding: string[]): boolean =>
+  !!schema.$ref && expanding.includes(schema.$ref);
+
+const emptyValue = (schema: Schema): unknown => {
+  const [type] = typesOf(schema) ?? [schema.properties ? 'object' : 'null'];
+
+  if (type === 'object') {
+    return {};
+  }
+
+  return type === 'array' ? [] : null;
+};
+
+// Generate a value that satisfies a schema, preferring any example or default
+// given in the schema itself
+const generate = (
+  schema: Schema,
+  root: unknown = schema,
+  expanding: string[] = []
+): unknown => {
+  if (isExpanding(schema, expanding)) {
+    return emptyValue(resolve(schema, root));
+  }
+
+  if (schema.$ref) {
+    expanding = [...expanding, schema.$ref];
+  }
+
+  schema = resolve(schema, root);
+
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+
+  if (schema.enum) {
+    return schema.enum[0];
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.reduce<Record<string, unknown>>(
+      (merged, subschema) => ({
+        ...merged,
+        ...(generate(subschema, root, expanding) as Record<string, unknown>),
+      }),
+      {}
+    );
+  }
+
+  const [first] = schema.oneOf ?? schema.anyOf ?? [];
+
+  if (first) {
+    return generate(first, root, expanding);
+  }
+
+  const [type] = typesOf(schema) ?? [schema.properties ? 'object' : 'string'];
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          generate(property, root, expanding),
+        ])
+      );
+    case 'array': {
+      const items = schema.items ?? {};
+
+      if (isExpanding(items, expanding)) {
+        return [];
+      }
+
+      return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () =>
+        generate(items, root, expanding)
+      );
+    }
+    case 'integer':
+    case 'number':
+      return (
+        schema.minimum ??
+        (schema.maximum !== undefined ? Math.min(schema.maximum, 0) : 0)
+      );
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      return (
+        FORMAT_EXAMPLES[schema.format ?? ''] ??
+        'string'.padEnd(schema.minLength ?? 0, 'x')
+      );
+  }
+};
+
+const formatErrors = (errors: SchemaError[]): string[] =>
+  errors.map(({ path, message }) => `${path} ${message}`);
+
+export { Schema, SchemaError, resolve, validate, generate, formatErrors };
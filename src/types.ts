@@ -1,4 +1,7 @@
-import { Request } from './request';
+import { InternalAxiosRequestConfig } from 'axios';
+import { Matcher } from './match';
+import { Request, Response, ResponseTuple } from './request';
+import { Schema } from './schema';
 
 const METHODS = [
   'get',
@@ -15,25 +18,113 @@ const METHODS = [
 
 type MockRegistry = Record<Method, Request[]>;
 type Method = (typeof METHODS)[number];
-type Params = Record<string, string | number | undefined>;
+type ParamValue = string | number | boolean;
+type Params = Record<string, ParamValue | ParamValue[] | undefined>;
 type Headers = Record<string, string>;
 type MatchMode = 'strict' | 'partial';
+type HeaderMatchMode = 'exact' | 'subset';
+type ExhaustedPolicy = 'repeat' | 'throw' | 'fallthrough';
+type DuplicatePolicy = 'append' | 'replace';
+type Latency = number | [min: number, max: number];
+
+type PathParams = Record<string, string>;
+type UriPredicate = (uri: string) => boolean;
+type UriSource = string | RegExp | UriPredicate;
+
+type Matchable<T> = { [K in keyof T]: T[K] | Matcher };
 
 type RequestOptions = {
-  params?: Params;
+  params?: Matchable<Params>;
   body?: any;
+  bodySchema?: Schema;
+  headers?: Matchable<Headers>;
+};
+
+// Why a request with a matching URI was passed over
+type Diagnostic = { request: Request; violations: string[] };
+
+type IncomingRequest = {
+  method: Method;
+  uri: string;
+  params?: Params;
   headers?: Headers;
+  body?: unknown;
+  pathParams: PathParams;
+  config: InternalAxiosRequestConfig;
+  passthrough: () => Promise<Response>;
 };
 
+type UnmatchedHandler = (
+  request: IncomingRequest
+) => ResponseTuple | undefined | Promise<ResponseTuple | undefined>;
+
+type UnmatchedPolicy =
+  | 'throw'
+  | 'passthrough'
+  | 'notFound'
+  | 'warn'
+  | UnmatchedHandler;
+
+type RecordedCall = {
+  method: Method;
+  uri: string;
+  params?: Params;
+  headers?: Headers;
+  body?: unknown;
+  pathParams?: PathParams;
+  request: Request | null;
+  response?: Response;
+  timestamp: Date;
+  cancelled: boolean;
+};
+
+type CallHistory = Record<Method, RecordedCall[]>;
+
+type Snapshot = { restore(): void };
+
+type RecordMode = 'once' | 'new_episodes' | 'none' | 'all';
+
+type Interaction = {
+  request: Pick<RecordedCall, 'method' | 'uri' | 'params' | 'headers' | 'body'>;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Headers;
+    data?: unknown;
+    encoding?: 'base64';
+  };
+  recordedAt: string;
+};
+
+type Cassette = { version: 1; interactions: Interaction[] };
+
 // type MatchOptions = RequestOptions & { uri: string };
 
 export {
   METHODS,
   Method,
+  ParamValue,
   Params,
+  PathParams,
   Headers,
   RequestOptions,
+  Diagnostic,
+  UriPredicate,
+  UriSource,
   // MatchOptions,
   MockRegistry,
   MatchMode,
+  HeaderMatchMode,
+  ExhaustedPolicy,
+  DuplicatePolicy,
+  Latency,
+  IncomingRequest,
+  UnmatchedHandler,
+  UnmatchedPolicy,
+  RecordedCall,
+  CallHistory,
+  Snapshot,
+  RecordMode,
+  Interaction,
+  Cassette,
 };
@@ -0,0 +1,102 @@
+import { PathParams, UriSource } from './types';
+
+// A parameter only starts a path segment, so that literal colons such as those
+// in `user:pass@` or custom methods (`/items:batchGet`) are left alone
+const TOKEN = /((?<=\/):[A-Za-z_]\w*|\*\*|\*)/;
+
+const escape = (literal: string): string =>
+  literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// Compile an Express-style template (`/users/:id`) or glob (`https://*/users`,
+// `/files/**`) into a regular expression, recording the parameter names.
+const compile = (template: string): { regexp: RegExp; keys: string[] } => {
+  const keys: string[] = [];
+
+  const source = template
+    .split(TOKEN)
+    .map((part, index) => {
+      // Splitting on a capturing pattern alternates literals and tokens
+      if (index % 2 === 0) {
+        return escape(part);
+      }
+
+      if (part === '**') {
+        return '.*';
+      }
+
+      if (part === '*') {
+        return '[^/]*';
+      }
+
+      keys.push(part.slice(1));
+      return '([^/?#]+)';
+    })
+    .join('');
+
+  return { regexp: new RegExp(`^${source}$`), keys };
+};
+
+class UriPattern {
+  protected regexp?: RegExp;
+  protected keys: string[] = [];
+
+  // Used to rank matches so that a literal URI beats a template, which beats a
+  // wildcard, which beats a regular expression, which beats a predicate
+  readonly specificity: number;
+
+  constructor(readonly source: UriSource) {
+    if (typeof source === 'string') {
+      if (TOKEN.test(source)) {
+        ({ regexp: this.regexp, keys: this.keys } = compile(source));
+        this.specificity = this.keys.length > 0 ? 0.5 : 0.25;
+      } else {
+        this.specificity = 1;
+      }
+    } else {
+      this.specificity = source instanceof RegExp ? 0.125 : 0;
+    }
+  }
+
+  match(uri: string): PathParams | null {
+    const { source } = this;
+
+    if (typeof source === 'function') {
+      return source(uri) ? {} : null;
+    }
+
+    if (source instanceof RegExp) {
+      const match = uri.match(source);
+      return match ? { ...match.groups } : null;
+    }
+
+    if (!this.regexp) {
+      return source === uri ? {} : null;
+    }
+
+    const match = uri.match(this.regexp);
+
+    if (!match) {
+      return null;
+    }
+
+    return this.keys.reduce<PathParams>(
+      (params, key, index) => ({
+        ...params,
+        [key]: decodeURIComponent(match[index + 1]),
+      }),
+      {}
+    );
+  }
+
+  toString(): string {
+    const { source } = this;
+
+    if (typeof source === 'function') {
+      return `[Function${source.name ? `: ${source.name}` : ''}]`;
+    }
+
+    return source.toString();
+  }
+}
+
+export { UriPattern };
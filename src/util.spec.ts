@@ -0,0 +1,45 @@
+import { normalizeUri } from './util';
+
+describe(normalizeUri.name, () => {
+  it('returns the URI and params unchanged when there is no query string', () => {
+    expect(normalizeUri('https://host.example/path', { key: 'value' })).toEqual(
+      { uri: 'https://host.example/path', params: { key: 'value' } }
+    );
+
+    expect(normalizeUri('https://host.example/path')).toEqual({
+      uri: 'https://host.example/path',
+      params: undefined,
+    });
+  });
+
+  it('splits the query string off of the URI', () => {
+    expect(normalizeUri('https://host.example/search?q=x&page=2')).toEqual({
+      uri: 'https://host.example/search',
+      params: { q: 'x', page: '2' },
+    });
+  });
+
+  it('collects repeated keys into arrays', () => {
+    expect(normalizeUri('/search?tag=a&tag=b&ids[]=1').params).toEqual({
+      tag: ['a', 'b'],
+      ids: ['1'],
+    });
+  });
+
+  it('merges the query string with the provided params', () => {
+    expect(normalizeUri('/search?q=x&tag=a', { page: 2, tag: 'b' })).toEqual({
+      uri: '/search',
+      params: { q: 'x', page: 2, tag: ['a', 'b'] },
+    });
+  });
+
+  it('serializes the params with a configured `paramsSerializer`', () => {
+    const { params } = normalizeUri(
+      '/search',
+      { tags: ['a', 'b'] },
+      { serialize: () => 'tags=a,b' }
+    );
+
+    expect(params).toEqual({ tags: 'a,b' });
+  });
+});
@@ -1,24 +1,49 @@
-import {
+import Axios, {
   AxiosError,
   AxiosPromise,
-  InternalAxiosRequestConfig,
   RawAxiosRequestHeaders,
+  AxiosRequestConfig,
   AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
 } from 'axios';
+import { decodeBody, decodeForm } from './body';
+import { timeoutError } from './network-errors';
 import { Request } from './request';
-import { Headers, Method, METHODS } from './types';
+import {
+  Headers,
+  IncomingRequest,
+  Latency,
+  Method,
+  METHODS,
+  ParamValue,
+  Params,
+} from './types';
 
 // Reimplementation of the same function from Axios source as this is no longer
 // exported. See:
 //   https://github.com/axios/axios/blob/f2547d0e030eab3dfa22d39b4a71c8f90fd8c2b9/lib/core/settle.js
 //
-const settle = (
+const settle = async (
   request: Request,
-  config: InternalAxiosRequestConfig
+  incoming: IncomingRequest,
+  latency = 0,
+  signal?: AbortSignal
 ): AxiosPromise => {
+  const { config } = incoming;
+
+  // The request is invoked immediately so it is counted as soon as it matches,
+  // and any failure is handled once the latency has elapsed
+  const pending = request.respond(incoming);
+  pending.catch(() => undefined);
+
+  const delayed =
+    latency > 0 ? sleep(latency, signal).then(() => pending) : pending;
+  const configuredResponse = await withTimeout(delayed, config, signal);
+
   return new Promise((resolve, reject) => {
     const response: AxiosResponse = {
-      ...request.response,
+      ...configuredResponse,
       config,
       request: undefined,
     };
@@ -46,6 +71,106 @@ const settle = (
   });
 };
 
+const canceledError = (
+  config: InternalAxiosRequestConfig,
+  reason?: unknown
+): Error => {
+  if (reason instanceof CanceledError) {
+    return reason;
+  }
+
+  const error = new CanceledError();
+  error.config = config;
+
+  return error;
+};
+
+// Reject with a `CanceledError` as soon as the request is aborted through
+// either `config.signal` or `config.cancelToken`, including when it was
+// aborted before the operation started. The operation is given a signal so it
+// can stop any pending work once cancelled.
+const cancellable = <T>(
+  config: InternalAxiosRequestConfig,
+  operation: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const { signal, cancelToken } = config;
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    const cancel = (reason?: unknown) => {
+      controller.abort();
+      reject(canceledError(config, reason));
+    };
+
+    const abort = () => cancel();
+
+    if (signal?.aborted || cancelToken?.reason) {
+      return cancel(cancelToken?.reason);
+    }
+
+    signal?.addEventListener?.('abort', abort);
+    cancelToken?.promise.then(cancel);
+
+    operation(controller.signal)
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener?.('abort', abort));
+  });
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Fail with the same error as the Axios HTTP adapter once `config.timeout` has
+// elapsed, whether the response is delayed by latency or still pending
+const withTimeout = <T>(
+  promise: Promise<T>,
+  config: InternalAxiosRequestConfig,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!config.timeout) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(timeoutError(config)),
+      config.timeout
+    );
+    const clear = () => clearTimeout(timer);
+
+    signal?.addEventListener('abort', clear);
+    promise.then(resolve, reject).finally(clear);
+  });
+};
+
+const resolveLatency = (latency?: Latency): number => {
+  if (!Array.isArray(latency)) {
+    return latency ?? 0;
+  }
+
+  const [min, max] = latency;
+  return Math.round(min + Math.random() * (max - min));
+};
+
+const groupByMethod = <T>(): Record<Method, T[]> =>
+  METHODS.reduce(
+    (groups, method) => ({ ...groups, [method]: [] }),
+    {} as Record<Method, T[]>
+  );
+
+const copyGroups = <T>(groups: Record<Method, T[]>): Record<Method, T[]> =>
+  METHODS.reduce(
+    (copy, method) => ({ ...copy, [method]: [...groups[method]] }),
+    {} as Record<Method, T[]>
+  );
+
 const joinUri = (
   base: string | undefined,
   ...remain: (string | undefined)[]
@@ -59,6 +184,71 @@ const joinUri = (
   return [...parts, ...remain].filter((e) => !!e).join('');
 };
 
+const splitQuery = (uri: string): [path: string, query: string] => {
+  const [withoutFragment] = uri.split('#');
+  const index = withoutFragment.indexOf('?');
+
+  if (index === -1) {
+    return [withoutFragment, ''];
+  }
+
+  return [withoutFragment.slice(0, index), withoutFragment.slice(index + 1)];
+};
+
+const parseQuery = (query: string): Params =>
+  decodeForm(query) as Record<string, string | string[]>;
+
+const mergeParams = (base: Params, params: Params): Params =>
+  Object.entries(params).reduce<Params>((merged, [key, value]) => {
+    const current = merged[key];
+
+    if (current === undefined || value === undefined) {
+      return { ...merged, [key]: value ?? current };
+    }
+
+    const values = ([] as ParamValue[]).concat(current, value);
+    return { ...merged, [key]: values };
+  }, base);
+
+// Split the query string off of a URI and merge it with any `params`, so that
+// requests can be matched regardless of where the params were provided. When a
+// custom `paramsSerializer` is configured, the params are matched as they
+// would be sent.
+const normalizeUri = (
+  uri: string,
+  params?: Params,
+  paramsSerializer?: AxiosRequestConfig['paramsSerializer']
+): { uri: string; params?: Params } => {
+  const [path, query] = splitQuery(uri);
+
+  if (params && paramsSerializer) {
+    const serialized = Axios.getUri({ url: '', params, paramsSerializer });
+    params = parseQuery(splitQuery(serialized)[1]);
+  }
+
+  if (!query) {
+    return { uri: path, params };
+  }
+
+  return { uri: path, params: mergeParams(parseQuery(query), params || {}) };
+};
+
+const normalizeHeaders = <T>(
+  headers?: Record<string, T>
+): Record<string, T> | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+
+  return Object.entries(headers).reduce<Record<string, T>>(
+    (normalized, [key, value]) => ({
+      ...normalized,
+      [key.toLowerCase()]: value,
+    }),
+    {}
+  );
+};
+
 const extractRequestHeaders = (
   incoming: RawAxiosRequestHeaders
 ): Headers | undefined => {
@@ -102,4 +292,36 @@ const extractRequestHeaders = (
   return { ...commonHeaders, ...remainingHeaders };
 };
 
-export { settle, joinUri, extractRequestHeaders };
+// Describe the request Axios sends in the same terms as a configured request,
+// so that the two can be compared
+const describeRequest = (config: InternalAxiosRequestConfig) => {
+  const { uri, params } = normalizeUri(
+    joinUri(config.baseURL, config.url),
+    config.params,
+    config.paramsSerializer
+  );
+
+  let headers: Headers | undefined = undefined;
+
+  // These will always be present in practice
+  if (config.headers) {
+    headers = extractRequestHeaders(config.headers);
+  }
+
+  const body = decodeBody(config.data, headers);
+
+  return { method: config.method as Method, uri, body, headers, params };
+};
+
+export {
+  settle,
+  cancellable,
+  resolveLatency,
+  groupByMethod,
+  copyGroups,
+  joinUri,
+  normalizeUri,
+  normalizeHeaders,
+  extractRequestHeaders,
+  describeRequest,
+};